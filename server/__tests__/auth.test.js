@@ -0,0 +1,173 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import { createAuth, createLoginThrottle, parseUsers, hasRole } from '../auth.js';
+import { WAV } from './fixtures.js';
+
+describe('auth', () => {
+  test('parses accounts from AUTH_USERS', () => {
+    expect(parseUsers('anna:admin:secret, bartek:viewer:a:b')).toEqual([
+      { name: 'anna', role: 'admin', password: 'secret' },
+      { name: 'bartek', role: 'viewer', password: 'a:b' }
+    ]);
+    expect(parseUsers('')).toEqual([]);
+    expect(() => parseUsers('anna:owner:secret')).toThrow(/AUTH_USERS/);
+    expect(() => parseUsers('anna:admin:')).toThrow(/AUTH_USERS/);
+  });
+
+  test('orders roles', () => {
+    expect(hasRole('admin', 'editor')).toBe(true);
+    expect(hasRole('editor', 'editor')).toBe(true);
+    expect(hasRole('viewer', 'editor')).toBe(false);
+    expect(hasRole(undefined, 'viewer')).toBe(false);
+  });
+
+  test('is off without accounts or a token', () => {
+    const auth = createAuth({});
+    expect(auth.enabled).toBe(false);
+    expect(auth.login({ username: 'anna', password: 'secret' })).toBeNull();
+  });
+
+  test('rejects a tampered session', () => {
+    const auth = createAuth({ AUTH_USERS: 'anna:viewer:secret', AUTH_SECRET: 'test' });
+    const session = auth.createSession({ name: 'anna', role: 'viewer' });
+    const [header, , signature] = session.split('.');
+    const forged = Buffer.from(JSON.stringify({ sub: 'anna', role: 'admin', exp: 9999999999 })).toString('base64url');
+
+    const req = { headers: { authorization: `Bearer ${header}.${forged}.${signature}` } };
+    auth.authenticate(req, {}, () => {});
+    expect(req.user).toEqual({ name: null, role: 'viewer' });
+  });
+
+  test('throttles repeated failed logins', () => {
+    const throttle = createLoginThrottle({ maxFailures: 2, windowMs: 1000 });
+    throttle.fail('1.2.3.4', 0);
+    expect(throttle.retryAfter('1.2.3.4', 10)).toBe(0);
+    throttle.fail('1.2.3.4', 10);
+    expect(throttle.retryAfter('1.2.3.4', 500)).toBe(1);
+    expect(throttle.retryAfter('5.6.7.8', 500)).toBe(0);
+    expect(throttle.retryAfter('1.2.3.4', 1000)).toBe(0);
+
+    throttle.fail('1.2.3.4', 2000);
+    throttle.succeed('1.2.3.4');
+    throttle.fail('1.2.3.4', 2001);
+    expect(throttle.retryAfter('1.2.3.4', 2002)).toBe(0);
+  });
+});
+
+describe('protected routes', () => {
+  let soundsDir;
+  let app;
+
+  beforeAll(async () => {
+    soundsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sounds-auth-'));
+    fs.writeFileSync(path.join(soundsDir, 'clip.wav'), WAV);
+
+    Object.assign(process.env, {
+      SOUNDS_DIR: soundsDir,
+      AUTH_USERS: 'anna:admin:secret,ewa:editor:haslo,piotr:viewer:viewer',
+      AUTH_TOKEN: 'shared-token',
+      AUTH_TOKEN_ROLE: 'editor',
+      AUTH_SECRET: 'test-secret',
+      AUTH_ANONYMOUS_ROLE: 'none'
+    });
+    ({ default: app } = await import('../index.js'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(soundsDir, { recursive: true, force: true });
+  });
+
+  const login = async (username, password) => {
+    const res = await request(app).post('/api/auth/login').send({ username, password });
+    expect(res.status).toBe(200);
+    return res.headers['set-cookie'];
+  };
+
+  test('requires a login', async () => {
+    expect((await request(app).get('/api/sounds')).status).toBe(401);
+    expect((await request(app).get('/api/sounds/clip.wav')).status).toBe(401);
+    expect((await request(app).get('/sounds/clip.wav')).status).toBe(401);
+    expect((await request(app).get('/api/auth/session')).body).toEqual({ authEnabled: true, user: null });
+  });
+
+  test('rejects wrong credentials', async () => {
+    const res = await request(app).post('/api/auth/login').send({ username: 'anna', password: 'wrong' });
+    expect(res.status).toBe(401);
+    expect(res.headers['set-cookie']).toBeUndefined();
+  });
+
+  test('viewers can listen but not change anything', async () => {
+    const cookie = await login('piotr', 'viewer');
+    expect((await request(app).get('/api/sounds').set('Cookie', cookie)).status).toBe(200);
+    expect((await request(app).get('/api/sounds/clip.wav').set('Cookie', cookie)).status).toBe(200);
+    expect((await request(app).delete('/api/sounds/clip.wav').set('Cookie', cookie)).status).toBe(403);
+    expect((await request(app).post('/api/boards').set('Cookie', cookie).send({ name: 'Mine' })).status).toBe(403);
+
+    const upload = await request(app)
+      .post('/api/upload')
+      .set('Cookie', cookie)
+      .attach('audio', WAV, { filename: 'new.wav', contentType: 'audio/wav' });
+    expect(upload.status).toBe(403);
+    expect(fs.readdirSync(soundsDir).filter(name => !name.startsWith('.'))).toEqual(['clip.wav']);
+  });
+
+  test('editors can upload but not import', async () => {
+    const cookie = await login('ewa', 'haslo');
+    const session = await request(app).get('/api/auth/session').set('Cookie', cookie);
+    expect(session.body.user).toEqual({ name: 'ewa', role: 'editor' });
+
+    const upload = await request(app)
+      .post('/api/upload')
+      .set('Cookie', cookie)
+      .attach('audio', WAV, { filename: 'new.wav', contentType: 'audio/wav' });
+    expect(upload.status).toBe(200);
+
+    const imported = await request(app).post('/api/sounds/import').set('Cookie', cookie).send({ sounds: [], mode: 'replace' });
+    expect(imported.status).toBe(403);
+  });
+
+  test('admins can import', async () => {
+    const cookie = await login('anna', 'secret');
+    const imported = await request(app).post('/api/sounds/import').set('Cookie', cookie).send({ sounds: [], mode: 'merge' });
+    expect(imported.status).toBe(200);
+  });
+
+  test('the shared token works as a bearer token and for logging in', async () => {
+    expect((await request(app).get('/api/sounds').set('Authorization', 'Bearer shared-token')).status).toBe(200);
+    expect((await request(app).get('/api/sounds').set('Authorization', 'Bearer wrong-token')).status).toBe(401);
+
+    const res = await request(app).post('/api/auth/login').send({ token: 'shared-token' });
+    expect(res.body).toEqual({ user: { name: 'token', role: 'editor' } });
+    expect((await request(app).get('/api/sounds').set('Cookie', res.headers['set-cookie'])).status).toBe(200);
+  });
+
+  test('only admins can clear all sounds', async () => {
+    const editor = await login('ewa', 'haslo');
+    expect((await request(app).delete('/api/sounds').set('Cookie', editor).send({})).status).toBe(403);
+
+    const admin = await login('anna', 'secret');
+    const res = await request(app).delete('/api/sounds').set('Cookie', admin).send({});
+    expect(res.status).toBe(200);
+    expect(res.body.failed).toEqual([]);
+    expect(fs.readdirSync(soundsDir).filter(name => !name.startsWith('.'))).toEqual([]);
+  });
+
+  test('logging out clears the session cookie', async () => {
+    const res = await request(app).post('/api/auth/logout');
+    expect(res.status).toBe(200);
+    expect(res.headers['set-cookie'][0]).toMatch(/^session=;/);
+  });
+
+  // Last - the IP stays blocked for the rest of the file
+  test('refuses logins after too many failures', async () => {
+    let res;
+    for (let attempt = 0; attempt < 11; attempt++) {
+      res = await request(app).post('/api/auth/login').send({ username: 'anna', password: 'guess' });
+    }
+    expect(res.status).toBe(429);
+    expect(Number(res.headers['retry-after'])).toBeGreaterThan(0);
+    expect((await request(app).post('/api/auth/login').send({ username: 'anna', password: 'secret' })).status).toBe(429);
+  });
+});
@@ -0,0 +1,287 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import AdmZip from 'adm-zip';
+import { isSafeFilename, resolveSoundPath, sniffMediaType, checkMediaContent } from '../fileSafety.js';
+import { readArchive } from '../archive.js';
+import { WAV } from './fixtures.js';
+
+// Minimal headers of the other formats the server accepts (WAV is shared)
+const MP3 = Buffer.concat([Buffer.from('ID3'), Buffer.alloc(61)]);
+const MP3_FRAME = Buffer.concat([Buffer.from([0xFF, 0xFB, 0x90, 0x64]), Buffer.alloc(60)]);
+const AAC = Buffer.concat([Buffer.from([0xFF, 0xF1, 0x50, 0x80]), Buffer.alloc(60)]);
+const OGG = Buffer.concat([Buffer.from('OggS'), Buffer.alloc(60)]);
+const WEBM = Buffer.concat([Buffer.from([0x1A, 0x45, 0xDF, 0xA3]), Buffer.alloc(60)]);
+const MP4 = Buffer.concat([Buffer.from([0, 0, 0, 0x20]), Buffer.from('ftypisom'), Buffer.alloc(52)]);
+const HTML = Buffer.from('<!DOCTYPE html><script>alert(1)</script>');
+
+describe('fileSafety', () => {
+  test('accepts plain filenames only', () => {
+    expect(isSafeFilename('clip_123.mp3')).toBe(true);
+    expect(isSafeFilename('zażółć gęślą.wav')).toBe(true);
+    ['', '.metadata.json', '../secret.mp3', 'a/b.mp3', 'a\\b.mp3', '..', 'clip\0.mp3', 'x'.repeat(256)]
+      .forEach(name => expect(isSafeFilename(name)).toBe(false));
+    expect(isSafeFilename(undefined)).toBe(false);
+  });
+
+  test('resolves only audio files directly inside soundsDir', () => {
+    const soundsDir = path.join(os.tmpdir(), 'sounds');
+    expect(resolveSoundPath(soundsDir, 'clip.mp3')).toBe(path.join(soundsDir, 'clip.mp3'));
+    expect(resolveSoundPath(soundsDir, '../clip.mp3')).toBeNull();
+    expect(resolveSoundPath(soundsDir, '..\\..\\clip.mp3')).toBeNull();
+    expect(resolveSoundPath(soundsDir, '.boards.json')).toBeNull();
+    expect(resolveSoundPath(soundsDir, 'index.html')).toBeNull();
+  });
+
+  test('sniffs media containers from their leading bytes', () => {
+    expect(sniffMediaType(WAV)?.type).toBe('wav');
+    expect(sniffMediaType(MP3)?.type).toBe('id3');
+    expect(sniffMediaType(MP3_FRAME)?.type).toBe('mpeg');
+    expect(sniffMediaType(AAC)?.type).toBe('aac');
+    expect(sniffMediaType(OGG)?.type).toBe('ogg');
+    expect(sniffMediaType(WEBM)?.type).toBe('ebml');
+    expect(sniffMediaType(MP4)?.type).toBe('mp4');
+    expect(sniffMediaType(HTML)).toBeNull();
+    expect(sniffMediaType(Buffer.alloc(0))).toBeNull();
+  });
+
+  test('rejects content that does not match the extension', () => {
+    expect(checkMediaContent(WAV, 'clip.wav')).toEqual({ type: 'wav' });
+    expect(checkMediaContent(MP4, 'movie.MOV')).toEqual({ type: 'mp4' });
+    expect(checkMediaContent(WAV, 'clip.mp3').error).toMatch(/does not match/);
+    expect(checkMediaContent(HTML, 'clip.mp3').error).toMatch(/not a recognised/);
+    expect(checkMediaContent(WAV, 'clip.html').error).toMatch(/Unsupported file extension/);
+    expect(checkMediaContent(MP4, 'movie.mp4', ['.wav']).error).toMatch(/Unsupported file extension/);
+  });
+});
+
+describe('readArchive', () => {
+  test('reads only safe audio filenames up to the size limit', () => {
+    const zip = new AdmZip();
+    zip.addFile('manifest.json', Buffer.from(JSON.stringify({ sounds: [] })));
+    zip.addFile('sounds/clip.wav', WAV);
+    zip.addFile('sounds/big.wav', Buffer.concat([WAV, Buffer.alloc(1024)]));
+    const zipPath = path.join(os.tmpdir(), `archive-${Date.now()}.zip`);
+    zip.writeZip(zipPath);
+
+    try {
+      const archive = readArchive(zipPath, { maxFileSize: 512 });
+      expect(archive.readSound('clip.wav').data).toEqual(WAV);
+      expect(archive.readSound('big.wav').error).toMatch(/larger/);
+      expect(archive.readSound('..\\clip.wav').error).toMatch(/filename/);
+      expect(archive.readSound('clip\u0000.wav').error).toMatch(/filename/);
+      expect(archive.readSound('missing.wav').error).toMatch(/missing/);
+    } finally {
+      fs.rmSync(zipPath, { force: true });
+    }
+  });
+});
+
+describe('file routes', () => {
+  let tmpDir;
+  let soundsDir;
+  let app;
+
+  beforeAll(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sounds-test-'));
+    soundsDir = path.join(tmpDir, 'sounds');
+    fs.mkdirSync(soundsDir);
+    fs.writeFileSync(path.join(tmpDir, 'secret.mp3'), MP3);
+    fs.writeFileSync(path.join(soundsDir, 'clip.wav'), WAV);
+
+    process.env.SOUNDS_DIR = soundsDir;
+    // Open board - a local .env must not turn auth on here (dotenv keeps values already set)
+    process.env.AUTH_USERS = '';
+    process.env.AUTH_TOKEN = '';
+    ({ default: app } = await import('../index.js'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const soundFiles = () => fs.readdirSync(soundsDir).filter(name => !name.startsWith('.'));
+
+  describe('GET /api/sounds/:filename', () => {
+    test('serves an audio file from soundsDir', async () => {
+      const res = await request(app).get('/api/sounds/clip.wav');
+      expect(res.status).toBe(200);
+      expect(res.headers['content-type']).toBe('audio/wav');
+    });
+
+    test.each([
+      '..%2Fsecret.mp3',
+      '..%5Csecret.mp3',
+      '%2E%2E%2Fsecret.mp3',
+      '.metadata.json',
+      '.boards.json',
+      'clip.wav%00.txt'
+    ])('refuses %s', async (name) => {
+      const res = await request(app).get(`/api/sounds/${name}`);
+      expect(res.status).toBe(404);
+    });
+
+    test('does not serve files with a non-audio extension', async () => {
+      fs.writeFileSync(path.join(soundsDir, 'notes.txt'), 'hello');
+      const res = await request(app).get('/api/sounds/notes.txt');
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('DELETE /api/sounds/:id', () => {
+    test('cannot delete files outside soundsDir', async () => {
+      const res = await request(app).delete('/api/sounds/..%2Fsecret.mp3');
+      expect(res.status).toBe(404);
+      expect(fs.existsSync(path.join(tmpDir, 'secret.mp3'))).toBe(true);
+    });
+
+    test('cannot delete the metadata files', async () => {
+      fs.writeFileSync(path.join(soundsDir, '.boards.json'), '[]');
+      const res = await request(app).delete('/api/sounds/.boards.json');
+      expect(res.status).toBe(404);
+      expect(fs.existsSync(path.join(soundsDir, '.boards.json'))).toBe(true);
+    });
+  });
+
+  describe('POST /api/sounds', () => {
+    test('does not create records for paths outside soundsDir', async () => {
+      const res = await request(app).post('/api/sounds').send({ filename: '../secret.mp3', title: 'Secret' });
+      expect(res.status).toBe(400);
+    });
+
+    test('answers an oversized body with 413 and the sizes', async () => {
+      const res = await request(app).post('/api/sounds').send({ filename: 'clip.wav', description: 'x'.repeat(6 * 1024 * 1024) });
+      expect(res.status).toBe(413);
+      expect(res.body.error).toBe('Payload too large');
+      expect(res.body.details).toMatch(/Limit: 5242880/);
+    });
+  });
+
+  describe('uploads', () => {
+    test('accepts audio whose content matches the extension', async () => {
+      const res = await request(app)
+        .post('/api/upload')
+        .attach('audio', MP3, { filename: 'song.mp3', contentType: 'audio/mpeg' });
+      expect(res.status).toBe(200);
+      expect(res.body.filename).toMatch(/\.mp3$/);
+      expect(soundFiles()).toContain(res.body.filename);
+    });
+
+    test('rejects HTML disguised with an audio mimetype', async () => {
+      const before = soundFiles();
+      const res = await request(app)
+        .post('/api/upload')
+        .attach('audio', HTML, { filename: 'page.html', contentType: 'audio/mpeg' });
+      expect(res.status).toBe(415);
+      expect(soundFiles()).toEqual(before);
+    });
+
+    test('rejects HTML renamed to .mp3', async () => {
+      const before = soundFiles();
+      const res = await request(app)
+        .post('/api/upload')
+        .attach('audio', HTML, { filename: 'page.mp3', contentType: 'audio/mpeg' });
+      expect(res.status).toBe(415);
+      expect(soundFiles()).toEqual(before);
+    });
+
+    test('rejects a WAV file uploaded as .mp3', async () => {
+      const res = await request(app)
+        .post('/api/upload')
+        .attach('audio', WAV, { filename: 'clip.mp3', contentType: 'audio/mpeg' });
+      expect(res.status).toBe(415);
+      expect(res.body.error).toMatch(/does not match/);
+    });
+
+    test('keeps the saved name inside soundsDir whatever the client calls the file', async () => {
+      const res = await request(app)
+        .post('/api/upload')
+        .attach('audio', MP3, { filename: '../../escape.mp3', contentType: 'audio/mpeg' });
+      expect(res.status).toBe(200);
+      expect(fs.existsSync(path.join(tmpDir, 'escape.mp3'))).toBe(false);
+      expect(soundFiles()).toContain(res.body.filename);
+    });
+
+    test('save-trimmed accepts audio only', async () => {
+      const before = soundFiles();
+      const res = await request(app)
+        .post('/api/sounds/save-trimmed')
+        .field('title', 'Clip')
+        .attach('audio', MP4, { filename: 'clip.mp4', contentType: 'audio/mp4' });
+      expect(res.status).toBe(415);
+      expect(soundFiles()).toEqual(before);
+    });
+
+    test('save-trimmed rejects mismatched content', async () => {
+      const res = await request(app)
+        .post('/api/sounds/save-trimmed')
+        .field('title', 'Clip')
+        .attach('audio', OGG, { filename: 'clip.wav', contentType: 'audio/wav' });
+      expect(res.status).toBe(415);
+    });
+
+    test('save-trimmed stores a matching clip', async () => {
+      const res = await request(app)
+        .post('/api/sounds/save-trimmed')
+        .field('title', 'Clip')
+        .attach('audio', WEBM, { filename: 'clip.webm', contentType: 'audio/webm' });
+      expect(res.status).toBe(200);
+      expect(soundFiles()).toContain(res.body.filename);
+    });
+
+    test('process rejects non-media sources before running ffmpeg', async () => {
+      const res = await request(app)
+        .post('/api/process')
+        .field('title', 'Clip')
+        .field('startTime', '0')
+        .field('endTime', '1')
+        .attach('file', HTML, { filename: 'movie.mp4', contentType: 'video/mp4' });
+      expect(res.status).toBe(415);
+    });
+  });
+
+  describe('POST /api/import', () => {
+    test('replaces ids that are not UUIDs', async () => {
+      const zip = new AdmZip();
+      zip.addFile('manifest.json', Buffer.from(JSON.stringify({
+        sounds: [{ id: '../../escaped', title: 'Escaped', filename: 'escaped.wav' }]
+      })));
+      zip.addFile('sounds/escaped.wav', WAV);
+
+      const res = await request(app)
+        .post('/api/import')
+        .attach('archive', zip.toBuffer(), { filename: 'board.zip', contentType: 'application/zip' });
+      expect(res.status).toBe(200);
+      expect(res.body.imported).toBe(1);
+
+      const imported = res.body.sounds.find(sound => sound.title === 'Escaped');
+      expect(imported.id).not.toBe('../../escaped');
+      expect(imported.id).toMatch(/^[0-9a-f-]{36}$/);
+    });
+
+    test('leaves no files behind when the import fails half way', async () => {
+      const zip = new AdmZip();
+      zip.addFile('manifest.json', Buffer.from(JSON.stringify({
+        sounds: [{ title: 'One', filename: 'one.wav' }, { title: 'Two', filename: 'two.wav' }]
+      })));
+      zip.addFile('sounds/one.wav', WAV);
+      zip.addFile('sounds/two.wav', WAV);
+
+      // The metadata store cannot write its temp file
+      const blocker = path.join(soundsDir, '.metadata.json.tmp');
+      fs.mkdirSync(blocker);
+      try {
+        const res = await request(app)
+          .post('/api/import')
+          .attach('archive', zip.toBuffer(), { filename: 'board.zip', contentType: 'application/zip' });
+        expect(res.status).toBe(500);
+      } finally {
+        fs.rmdirSync(blocker);
+      }
+
+      expect(soundFiles()).not.toContain('one.wav');
+      expect(soundFiles()).not.toContain('two.wav');
+    });
+  });
+});
@@ -0,0 +1,4 @@
+// Shared test data - not a test file (jest only runs *.test.js)
+
+// Smallest buffer the upload checks accept as WAV
+export const WAV = Buffer.concat([Buffer.from('RIFF'), Buffer.alloc(4), Buffer.from('WAVEfmt '), Buffer.alloc(32)]);
@@ -0,0 +1,54 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import { WAV } from './fixtures.js';
+
+describe('hotkey conflicts', () => {
+  let soundsDir;
+  let app;
+  let first;
+  let second;
+
+  beforeAll(async () => {
+    soundsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sounds-hotkeys-'));
+    fs.writeFileSync(path.join(soundsDir, 'first.wav'), WAV);
+    fs.writeFileSync(path.join(soundsDir, 'second.wav'), WAV);
+
+    Object.assign(process.env, { SOUNDS_DIR: soundsDir, AUTH_USERS: '', AUTH_TOKEN: '' });
+    ({ default: app } = await import('../index.js'));
+
+    const sounds = (await request(app).get('/api/sounds')).body;
+    first = sounds.find(sound => sound.filename === 'first.wav');
+    second = sounds.find(sound => sound.filename === 'second.wav');
+    await request(app).patch(`/api/sounds/${first.id}`).send({ hotkey: 'Ctrl+1' });
+  });
+
+  afterAll(() => {
+    fs.rmSync(soundsDir, { recursive: true, force: true });
+  });
+
+  test('creating a record refuses a taken hotkey', async () => {
+    const res = await request(app).post('/api/sounds').send({ filename: 'second.wav', title: 'Second', hotkey: 'Ctrl+1' });
+    expect(res.status).toBe(409);
+    expect(res.body.id).toBe(first.id);
+
+    // The sound that owns the key may keep it
+    const own = await request(app).post('/api/sounds').send({ filename: 'first.wav', title: 'First', hotkey: 'Ctrl+1' });
+    expect(own.status).toBe(201);
+  });
+
+  test('import drops a taken hotkey with a warning', async () => {
+    const res = await request(app).post('/api/sounds/import').send({
+      sounds: [{ ...second, hotkey: 'Ctrl+1' }],
+      mode: 'merge'
+    });
+    expect(res.status).toBe(200);
+    expect(res.body.imported).toBe(1);
+    expect(res.body.warnings).toEqual([{ title: second.title, reason: expect.stringMatching(/Ctrl\+1/) }]);
+
+    const sounds = res.body.sounds;
+    expect(sounds.find(sound => sound.id === first.id).hotkey).toBe('Ctrl+1');
+    expect(sounds.find(sound => sound.id === second.id).hotkey).toBeNull();
+  });
+});
@@ -0,0 +1,173 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { EventEmitter } from 'events';
+import request from 'supertest';
+import { jest } from '@jest/globals';
+import { createLiveEvents, createCoalescer } from '../liveEvents.js';
+import { WAV } from './fixtures.js';
+
+// Just enough of req/res for an SSE stream
+const fakeStream = (lastEventId) => {
+  const req = new EventEmitter();
+  req.headers = lastEventId === undefined ? {} : { 'last-event-id': String(lastEventId) };
+  const res = { chunks: [], writeHead() {}, write(chunk) { this.chunks.push(chunk); } };
+  return { req, res, text: () => res.chunks.join('') };
+};
+
+describe('liveEvents', () => {
+  test('sends events to every open stream until it closes', () => {
+    const events = createLiveEvents();
+    const first = fakeStream();
+    const second = fakeStream();
+    events.subscribe(first.req, first.res);
+    events.subscribe(second.req, second.res);
+
+    events.publish('sound.deleted', { ids: ['a'] });
+    first.req.emit('close');
+    events.publish('sound.deleted', { ids: ['b'] });
+
+    expect(events.clientCount).toBe(1);
+    expect(first.text()).toMatch(/event: ready/);
+    expect(first.text()).toMatch(/event: sound.deleted\ndata: {"ids":\["a"\]}/);
+    expect(first.text()).not.toMatch(/"b"/);
+    expect(second.text()).toMatch(/"b"/);
+    second.req.emit('close');
+  });
+
+  test('replays missed events to a reconnecting client', () => {
+    const events = createLiveEvents();
+    const seen = events.publish('sound.deleted', { ids: ['a'] });
+    events.publish('sound.deleted', { ids: ['b'] });
+
+    const stream = fakeStream(seen.id);
+    events.subscribe(stream.req, stream.res);
+    expect(stream.text()).not.toMatch(/"a"/);
+    expect(stream.text()).toMatch(/"b"/);
+    stream.req.emit('close');
+  });
+
+  test('asks for a resync when the missed events are gone', () => {
+    const events = createLiveEvents({ replayLimit: 1 });
+    const seen = events.publish('sound.deleted', { ids: ['a'] });
+    events.publish('sound.deleted', { ids: ['b'] });
+    events.publish('sound.deleted', { ids: ['c'] });
+
+    const stale = fakeStream(seen.id);
+    events.subscribe(stale.req, stale.res);
+    expect(stale.text()).toMatch(/event: resync/);
+    expect(stale.text()).not.toMatch(/"c"/);
+
+    // An id from an earlier server process
+    const restarted = fakeStream(seen.id + 1000);
+    events.subscribe(restarted.req, restarted.res);
+    expect(restarted.text()).toMatch(/event: resync/);
+
+    stale.req.emit('close');
+    restarted.req.emit('close');
+  });
+
+  test('coalesces records into one flush per interval', () => {
+    jest.useFakeTimers();
+    try {
+      const flushed = [];
+      const queue = createCoalescer(records => flushed.push(records), { interval: 1000 });
+      queue({ id: 'a', playCount: 1 });
+      queue({ id: 'b', playCount: 1 });
+      queue({ id: 'a', playCount: 2 });
+      expect(flushed).toEqual([]);
+
+      jest.advanceTimersByTime(1000);
+      expect(flushed).toEqual([[{ id: 'a', playCount: 2 }, { id: 'b', playCount: 1 }]]);
+
+      queue({ id: 'a', playCount: 3 });
+      jest.advanceTimersByTime(1000);
+      expect(flushed[1]).toEqual([{ id: 'a', playCount: 3 }]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('live sync routes', () => {
+  let soundsDir;
+  let app;
+
+  beforeAll(async () => {
+    soundsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sounds-live-'));
+    fs.writeFileSync(path.join(soundsDir, 'clip.wav'), WAV);
+
+    Object.assign(process.env, { SOUNDS_DIR: soundsDir, AUTH_USERS: '', AUTH_TOKEN: '' });
+    ({ default: app } = await import('../index.js'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(soundsDir, { recursive: true, force: true });
+  });
+
+  test('refuses an edit of a field changed by someone else', async () => {
+    const [sound] = (await request(app).get('/api/sounds')).body;
+
+    const first = await request(app).patch(`/api/sounds/${sound.id}`).send({ title: 'Mine', expected: { title: sound.title } });
+    expect(first.status).toBe(200);
+    expect(first.body.revision).toBe(sound.revision + 1);
+
+    const stale = await request(app).patch(`/api/sounds/${sound.id}`).send({ title: 'Theirs', expected: { title: sound.title } });
+    expect(stale.status).toBe(409);
+    expect(stale.body.fields).toEqual(['title']);
+    expect(stale.body.sound.title).toBe('Mine');
+
+    // Other fields and the same new value still go through
+    const other = await request(app).patch(`/api/sounds/${sound.id}`).send({ color: '#3b82f6', expected: { color: null } });
+    expect(other.status).toBe(200);
+    const same = await request(app).patch(`/api/sounds/${sound.id}`).send({ title: 'Mine', expected: { title: sound.title } });
+    expect(same.status).toBe(200);
+  });
+
+  test('treats missing fields as the empty values the edit form sends', async () => {
+    fs.writeFileSync(path.join(soundsDir, 'fresh.wav'), WAV);
+    const sound = (await request(app).get('/api/sounds')).body.find(record => record.filename === 'fresh.wav');
+    expect(sound.tags).toBeUndefined();
+
+    const res = await request(app).patch(`/api/sounds/${sound.id}`).send({
+      tags: ['intro'],
+      description: 'Opening jingle',
+      expected: { tags: [], description: '' }
+    });
+    expect(res.status).toBe(200);
+    expect(res.body.tags).toEqual(['intro']);
+  });
+
+  test('streams changes to open clients', async () => {
+    const server = app.listen(0);
+    const { port } = server.address();
+
+    try {
+      const received = await new Promise((resolve, reject) => {
+        let text = '';
+        const req = http.get({ port, path: '/api/events' }, (res) => {
+          expect(res.headers['content-type']).toBe('text/event-stream');
+          res.setEncoding('utf8');
+          res.on('data', async (chunk) => {
+            text += chunk;
+            if (text.includes('event: ready')) {
+              text = text.replace('event: ready', 'ready');
+              const [sound] = (await request(server).get('/api/sounds')).body;
+              await request(server).patch(`/api/sounds/${sound.id}`).send({ favorite: true });
+            }
+            if (text.includes('event: sound.updated')) {
+              req.destroy();
+              resolve(text);
+            }
+          });
+        });
+        req.on('error', reject);
+      });
+
+      expect(received).toMatch(/"favorite":true/);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,165 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import { createTrashStore, parseRetentionDays } from '../trashStore.js';
+import { WAV } from './fixtures.js';
+
+describe('trashStore', () => {
+  let soundsDir;
+
+  beforeEach(() => {
+    soundsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sounds-trash-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(soundsDir, { recursive: true, force: true });
+  });
+
+  test('parses the retention period', () => {
+    expect(parseRetentionDays(undefined)).toBe(30);
+    expect(parseRetentionDays('7')).toBe(7);
+    expect(parseRetentionDays('0')).toBe(0);
+    expect(() => parseRetentionDays('-1')).toThrow(/TRASH_RETENTION_DAYS/);
+    expect(() => parseRetentionDays('soon')).toThrow(/TRASH_RETENTION_DAYS/);
+  });
+
+  test('purges only sounds past the retention period', () => {
+    const trash = createTrashStore(soundsDir, { retentionDays: 7 });
+    fs.writeFileSync(path.join(soundsDir, 'a.wav'), WAV);
+    trash.trash({ id: 'a', title: 'A', filename: 'a.wav' });
+
+    expect(trash.purgeExpired(Date.now() + 6 * 24 * 60 * 60 * 1000)).toEqual([]);
+    expect(trash.purgeExpired(Date.now() + 8 * 24 * 60 * 60 * 1000).map(sound => sound.id)).toEqual(['a']);
+    expect(trash.list()).toEqual([]);
+    expect(fs.readdirSync(path.join(soundsDir, '.trash'))).toEqual([]);
+  });
+
+  test('restores under a new name when the old one is taken', () => {
+    const trash = createTrashStore(soundsDir);
+    fs.writeFileSync(path.join(soundsDir, 'a.wav'), WAV);
+    trash.trash({ id: 'a', title: 'A', filename: 'a.wav' });
+    fs.writeFileSync(path.join(soundsDir, 'a.wav'), WAV);
+
+    const { record } = trash.restore('a');
+    expect(record.filename).not.toBe('a.wav');
+    expect(fs.existsSync(path.join(soundsDir, record.filename))).toBe(true);
+  });
+
+  test('keeps trashed files inside the trash whatever the record id', () => {
+    const trash = createTrashStore(soundsDir);
+    fs.writeFileSync(path.join(soundsDir, 'a.wav'), WAV);
+    trash.trash({ id: '../../escaped', title: 'A', filename: 'a.wav' });
+
+    expect(fs.readdirSync(path.join(soundsDir, '.trash'))).toHaveLength(1);
+    expect(trash.restore('../../escaped').record.filename).toBe('a.wav');
+    expect(fs.existsSync(path.join(soundsDir, 'a.wav'))).toBe(true);
+  });
+
+  test('ignores index entries that point outside the trash', () => {
+    fs.writeFileSync(path.join(soundsDir, 'victim.wav'), WAV);
+    const entry = (id) => ({ record: { id, title: id, filename: `${id}.wav` }, boards: [], trashFilename: '../victim.wav', deletedAt: new Date().toISOString() });
+    fs.writeFileSync(path.join(soundsDir, '.trash.json'), JSON.stringify([entry('a'), entry('b')]));
+
+    const trash = createTrashStore(soundsDir);
+    expect(() => trash.restore('a')).toThrow(/missing/);
+    expect(trash.purge('b').id).toBe('b');
+    expect(fs.existsSync(path.join(soundsDir, 'victim.wav'))).toBe(true);
+  });
+});
+
+describe('trash routes', () => {
+  let soundsDir;
+  let app;
+
+  beforeAll(async () => {
+    soundsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sounds-trash-routes-'));
+    fs.writeFileSync(path.join(soundsDir, 'clip.wav'), WAV);
+
+    Object.assign(process.env, { SOUNDS_DIR: soundsDir, AUTH_USERS: '', AUTH_TOKEN: '' });
+    ({ default: app } = await import('../index.js'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(soundsDir, { recursive: true, force: true });
+  });
+
+  test('a deleted sound can be restored with its boards', async () => {
+    const [sound] = (await request(app).get('/api/sounds')).body;
+    await request(app).patch(`/api/sounds/${sound.id}`).send({ favorite: true });
+    const board = (await request(app).post('/api/boards').send({ name: 'Memes' })).body;
+    await request(app).patch(`/api/boards/${board.id}`).send({ soundIds: [sound.id], positions: { [sound.id]: 3 } });
+
+    const deleted = await request(app).delete(`/api/sounds/${sound.id}`);
+    expect(deleted.status).toBe(200);
+    expect((await request(app).get('/api/sounds')).body).toEqual([]);
+    expect((await request(app).get('/api/sounds/clip.wav')).status).toBe(404);
+
+    const trash = (await request(app).get('/api/trash')).body;
+    expect(trash.sounds.map(trashed => trashed.id)).toEqual([sound.id]);
+    expect(trash.sounds[0].deletedAt).toBeDefined();
+
+    const restored = await request(app).post('/api/trash/restore').send({ ids: [sound.id, 'unknown'] });
+    expect(restored.body.restored.map(record => record.id)).toEqual([sound.id]);
+    expect(restored.body.restored[0].favorite).toBe(true);
+    expect(restored.body.failed).toEqual([{ id: 'unknown', title: 'unknown', reason: 'Not in the trash' }]);
+
+    const [restoredBoard] = (await request(app).get('/api/boards')).body;
+    expect(restoredBoard.soundIds).toEqual([sound.id]);
+    expect(restoredBoard.positions).toEqual({ [sound.id]: 3 });
+    expect((await request(app).get('/api/sounds/clip.wav')).status).toBe(200);
+  });
+
+  test('deleting from the trash removes the file for good', async () => {
+    const [sound] = (await request(app).get('/api/sounds')).body;
+    await request(app).delete(`/api/sounds/${sound.id}`);
+
+    expect((await request(app).delete(`/api/trash/${sound.id}`)).status).toBe(200);
+    expect((await request(app).get('/api/trash')).body.sounds).toEqual([]);
+    expect(fs.readdirSync(path.join(soundsDir, '.trash'))).toEqual([]);
+  });
+
+  test('a file removed by hand takes its sound off the boards', async () => {
+    fs.writeFileSync(path.join(soundsDir, 'gone.wav'), WAV);
+    const sound = (await request(app).get('/api/sounds')).body.find(record => record.filename === 'gone.wav');
+    const board = (await request(app).post('/api/boards').send({ name: 'Gone' })).body;
+    await request(app).patch(`/api/boards/${board.id}`).send({ soundIds: [sound.id], positions: { [sound.id]: 0 } });
+
+    fs.unlinkSync(path.join(soundsDir, 'gone.wav'));
+    await request(app).get('/api/sounds');
+
+    const updated = (await request(app).get('/api/boards')).body.find(candidate => candidate.id === board.id);
+    expect(updated.soundIds).toEqual([]);
+    expect(updated.positions).toEqual({});
+  });
+
+  test('replace import keeps sounds that cannot go to the trash', async () => {
+    fs.writeFileSync(path.join(soundsDir, 'keep.wav'), WAV);
+    fs.writeFileSync(path.join(soundsDir, 'other.wav'), WAV);
+    const sounds = (await request(app).get('/api/sounds')).body;
+    const keep = sounds.find(sound => sound.filename === 'keep.wav');
+
+    // The trash directory cannot be created
+    fs.rmSync(path.join(soundsDir, '.trash'), { recursive: true, force: true });
+    fs.writeFileSync(path.join(soundsDir, '.trash'), '');
+    try {
+      const res = await request(app).post('/api/sounds/import').send({ sounds: [keep], mode: 'replace' });
+      expect(res.status).toBe(200);
+      expect(res.body.removed).toBe(0);
+      expect(res.body.warnings).toEqual([{ title: 'other', reason: expect.stringMatching(/kept/) }]);
+      expect(res.body.sounds.map(sound => sound.filename).sort()).toEqual(['keep.wav', 'other.wav']);
+    } finally {
+      fs.rmSync(path.join(soundsDir, '.trash'), { force: true });
+    }
+    expect(fs.existsSync(path.join(soundsDir, 'other.wav'))).toBe(true);
+  });
+
+  test('a stray file without a record goes to the trash too', async () => {
+    fs.writeFileSync(path.join(soundsDir, 'stray.wav'), WAV);
+
+    const res = await request(app).delete('/api/sounds/stray.wav');
+    expect(res.status).toBe(200);
+    expect(fs.existsSync(path.join(soundsDir, 'stray.wav'))).toBe(false);
+    expect((await request(app).get('/api/trash')).body.sounds.map(sound => sound.filename)).toContain('stray.wav');
+  });
+});
@@ -0,0 +1,94 @@
+import fs from 'fs';
+import path from 'path';
+import archiver from 'archiver';
+import AdmZip from 'adm-zip';
+import { isAudioFile } from './soundStore.js';
+import { isSafeFilename } from './fileSafety.js';
+
+export const MANIFEST_NAME = 'manifest.json';
+const SOUNDS_FOLDER = 'sounds/';
+const ARCHIVE_VERSION = 1;
+
+// Stream a board archive (manifest + audio files) into a writable response
+export function streamArchive(output, records, soundsDir) {
+  const archive = archiver('zip', { zlib: { level: 6 } });
+
+  archive.on('warning', (error) => {
+    console.warn('⚠️ Archive warning:', error);
+  });
+
+  archive.pipe(output);
+
+  archive.append(JSON.stringify({
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    sounds: records
+  }, null, 2), { name: MANIFEST_NAME });
+
+  records.forEach(record => {
+    const filePath = path.join(soundsDir, record.filename);
+    if (fs.existsSync(filePath)) {
+      archive.file(filePath, { name: SOUNDS_FOLDER + record.filename });
+    }
+  });
+
+  return archive.finalize().then(() => archive);
+}
+
+// Open an uploaded board archive and return its manifest and a file reader.
+// maxFileSize caps each sound, like the upload routes do.
+export function readArchive(zipPath, { maxFileSize = Infinity } = {}) {
+  const zip = new AdmZip(zipPath);
+  const manifestEntry = zip.getEntry(MANIFEST_NAME);
+
+  if (!manifestEntry) {
+    throw new Error('Archive has no manifest.json');
+  }
+
+  let manifest;
+  try {
+    manifest = JSON.parse(manifestEntry.getData().toString('utf8'));
+  } catch (error) {
+    throw new Error('manifest.json is not valid JSON');
+  }
+
+  if (!manifest || !Array.isArray(manifest.sounds)) {
+    throw new Error('manifest.json has no sounds list');
+  }
+
+  return {
+    sounds: manifest.sounds,
+    // Only plain audio filenames inside sounds/ are readable - no nested or relative paths.
+    // Returns { data } or { error } with the reason the file cannot be imported.
+    readSound(filename) {
+      if (!isSafeFilename(filename) || !isAudioFile(filename)) {
+        return { error: 'Invalid audio filename' };
+      }
+      const entry = zip.getEntry(SOUNDS_FOLDER + filename);
+      if (!entry || entry.isDirectory) {
+        return { error: 'Audio file missing from archive' };
+      }
+      // Size from the entry header, checked before anything is unpacked
+      if (entry.header.size > maxFileSize) {
+        return { error: `Audio file is larger than ${Math.round(maxFileSize / 1024 / 1024)}MB` };
+      }
+      return { data: entry.getData() };
+    }
+  };
+}
+
+// Pick a filename that does not collide with anything already in soundsDir
+export function uniqueFilename(soundsDir, filename) {
+  if (!fs.existsSync(path.join(soundsDir, filename))) {
+    return filename;
+  }
+
+  const ext = path.extname(filename);
+  const base = path.basename(filename, ext).replace(/[^a-zA-Z0-9_-]/g, '_');
+  let candidate;
+  do {
+    candidate = `${base}-${Date.now()}-${Math.round(Math.random() * 1E6)}${ext}`;
+  } while (fs.existsSync(path.join(soundsDir, candidate)));
+
+  return candidate;
+}
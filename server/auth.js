@@ -0,0 +1,216 @@
+import crypto from 'crypto';
+
+// Role order - every role can do everything the roles before it can
+export const ROLES = ['viewer', 'editor', 'admin'];
+
+export const SESSION_COOKIE = 'session';
+
+// Name of the session created by logging in with the shared token
+const TOKEN_USER = 'token';
+
+const DEFAULT_SESSION_HOURS = 12;
+
+function isRole(value) {
+  return ROLES.includes(value);
+}
+
+// Does `role` include the permissions of `required`?
+export function hasRole(role, required) {
+  return isRole(role) && ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+// AUTH_USERS="anna:admin:secret,bartek:editor:haslo" - the password may contain ':'
+export function parseUsers(value) {
+  if (!value) return [];
+
+  return value.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const [name, role, ...password] = entry.split(':');
+    if (!name || !isRole(role) || password.length === 0 || !password.join(':')) {
+      throw new Error(`Invalid AUTH_USERS entry "${name || entry}" - expected name:role:password with role ${ROLES.join('|')}`);
+    }
+    return { name, role, password: password.join(':') };
+  });
+}
+
+// Compare secrets in constant time, also when their lengths differ
+function secretsMatch(given, expected) {
+  if (typeof given !== 'string' || typeof expected !== 'string') return false;
+  const hash = value => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(hash(given), hash(expected));
+}
+
+const base64url = value => Buffer.from(value).toString('base64url');
+
+// HS256 JWT - { sub, role, iat, exp }
+function signToken(payload, secret) {
+  const body = `${base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))}.${base64url(JSON.stringify(payload))}`;
+  const signature = crypto.createHmac('sha256', secret).update(body).digest('base64url');
+  return `${body}.${signature}`;
+}
+
+// Payload of a valid, unexpired token or null
+function verifyToken(token, secret) {
+  const parts = typeof token === 'string' ? token.split('.') : [];
+  if (parts.length !== 3) return null;
+
+  const expected = crypto.createHmac('sha256', secret).update(`${parts[0]}.${parts[1]}`).digest();
+  const signature = Buffer.from(parts[2], 'base64url');
+  if (signature.length !== expected.length || !crypto.timingSafeEqual(signature, expected)) return null;
+
+  try {
+    const header = JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8'));
+    const payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+    if (header.alg !== 'HS256' || typeof payload.exp !== 'number' || payload.exp * 1000 <= Date.now()) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+// Read one cookie from the Cookie header
+function readCookie(req, name) {
+  const cookies = req.headers.cookie ? req.headers.cookie.split(';') : [];
+  for (const cookie of cookies) {
+    const index = cookie.indexOf('=');
+    if (index !== -1 && cookie.slice(0, index).trim() === name) {
+      try {
+        return decodeURIComponent(cookie.slice(index + 1).trim());
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+// Authentication configured from the environment:
+// - AUTH_USERS     local accounts (see parseUsers)
+// - AUTH_TOKEN     shared secret, logs in as AUTH_TOKEN_ROLE (default editor)
+// - AUTH_SECRET    key for signing sessions (random per start when missing)
+// - AUTH_ANONYMOUS_ROLE   role without logging in: viewer (default), editor, admin or none
+// - AUTH_SESSION_HOURS    session lifetime
+// Without AUTH_USERS and AUTH_TOKEN auth is off and everyone is an admin, as before.
+export function createAuth(env = process.env) {
+  const users = parseUsers(env.AUTH_USERS);
+  const sharedToken = env.AUTH_TOKEN || null;
+  const tokenRole = env.AUTH_TOKEN_ROLE || 'editor';
+  const anonymousRole = env.AUTH_ANONYMOUS_ROLE || 'viewer';
+  const sessionHours = Number(env.AUTH_SESSION_HOURS) || DEFAULT_SESSION_HOURS;
+  const enabled = users.length > 0 || Boolean(sharedToken);
+
+  if (!isRole(tokenRole)) {
+    throw new Error(`Invalid AUTH_TOKEN_ROLE "${tokenRole}"`);
+  }
+  if (anonymousRole !== 'none' && !isRole(anonymousRole)) {
+    throw new Error(`Invalid AUTH_ANONYMOUS_ROLE "${anonymousRole}"`);
+  }
+
+  let secret = env.AUTH_SECRET;
+  if (enabled && !secret) {
+    console.warn('⚠️ AUTH_SECRET is not set - sessions will not survive a server restart');
+    secret = crypto.randomBytes(32).toString('hex');
+  }
+
+  const anonymous = anonymousRole === 'none' ? null : { name: null, role: anonymousRole };
+
+  // Current role of a session owner - changes to AUTH_USERS apply to existing sessions
+  const findUser = (name) => {
+    if (name === TOKEN_USER && sharedToken) return { name: TOKEN_USER, role: tokenRole };
+    const user = users.find(candidate => candidate.name === name);
+    return user ? { name: user.name, role: user.role } : null;
+  };
+
+  // User behind the request: session cookie, "Authorization: Bearer <session or AUTH_TOKEN>", or anonymous
+  const identify = (req) => {
+    const header = req.headers.authorization || '';
+    const bearer = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : null;
+
+    if (bearer && sharedToken && secretsMatch(bearer, sharedToken)) {
+      return findUser(TOKEN_USER);
+    }
+
+    const payload = verifyToken(bearer || readCookie(req, SESSION_COOKIE), secret);
+    return (payload && findUser(payload.sub)) || anonymous;
+  };
+
+  return {
+    enabled,
+    sessionMaxAge: sessionHours * 60 * 60,
+
+    // { username, password } for an account or { token } for the shared secret
+    login({ username, password, token } = {}) {
+      if (!enabled) return null;
+
+      if (token !== undefined) {
+        return sharedToken && secretsMatch(token, sharedToken) ? findUser(TOKEN_USER) : null;
+      }
+
+      const user = users.find(candidate => candidate.name === username);
+      // Compare against something even for unknown names, so timing does not reveal them
+      const matches = secretsMatch(password, user ? user.password : crypto.randomBytes(16).toString('hex'));
+      return user && matches ? findUser(user.name) : null;
+    },
+
+    createSession(user) {
+      const now = Math.floor(Date.now() / 1000);
+      return signToken({ sub: user.name, role: user.role, iat: now, exp: now + sessionHours * 60 * 60 }, secret);
+    },
+
+    // Sets req.user (null = not logged in and no anonymous access)
+    authenticate(req, res, next) {
+      req.user = enabled ? identify(req) : { name: null, role: 'admin' };
+      next();
+    },
+
+    // 401 without a user, 403 when the role is too low
+    requireRole(role) {
+      return (req, res, next) => {
+        if (!req.user) {
+          return res.status(401).json({ error: 'Login required' });
+        }
+        if (!hasRole(req.user.role, role)) {
+          return res.status(403).json({ error: `This action requires the ${role} role` });
+        }
+        next();
+      };
+    }
+  };
+}
+
+// Failed logins allowed per client in one window before /api/auth/login answers 429
+const LOGIN_MAX_FAILURES = 10;
+const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+
+// Failed login attempts per client key (the IP). A successful login clears them.
+export function createLoginThrottle({ maxFailures = LOGIN_MAX_FAILURES, windowMs = LOGIN_WINDOW_MS } = {}) {
+  const failures = new Map();
+
+  // Forget windows that are over, so the map does not grow forever
+  const prune = (now) => {
+    failures.forEach((entry, key) => {
+      if (now - entry.since >= windowMs) failures.delete(key);
+    });
+  };
+
+  return {
+    // Seconds until `key` may try again, 0 when it may now
+    retryAfter(key, now = Date.now()) {
+      prune(now);
+      const entry = failures.get(key);
+      return entry && entry.count >= maxFailures ? Math.ceil((entry.since + windowMs - now) / 1000) : 0;
+    },
+
+    fail(key, now = Date.now()) {
+      const entry = failures.get(key);
+      if (entry && now - entry.since < windowMs) {
+        entry.count++;
+      } else {
+        failures.set(key, { count: 1, since: now });
+      }
+    },
+
+    succeed(key) {
+      failures.delete(key);
+    }
+  };
+}
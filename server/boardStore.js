@@ -0,0 +1,219 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { isValidPosition } from './soundStore.js';
+
+// Boards reference sounds by id - one file can sit on many boards
+const BOARDS_FILENAME = '.boards.json';
+
+const MAX_NAME_LENGTH = 60;
+
+const VIEW_MODES = ['grid', 'list'];
+const SORT_FIELDS = ['title', 'duration', 'createdAt', 'playCount', 'manual'];
+const SORT_ORDERS = ['asc', 'desc'];
+// exclusive = a new sound stops the previous one, overlap = they play together
+const PLAYBACK_MODES = ['exclusive', 'overlap'];
+
+const DEFAULT_LAYOUT = {
+  viewMode: 'grid',
+  sortBy: 'title',
+  sortOrder: 'asc',
+  fixedSlots: false,
+  playbackMode: 'overlap'
+};
+
+// Boards saved before a field existed get its default
+function withDefaults(board) {
+  return { ...DEFAULT_LAYOUT, positions: {}, ...board };
+}
+
+// Validate and normalize board fields from a request body
+export function validateBoardFields(body) {
+  const { name, soundIds, positions, viewMode, sortBy, sortOrder, fixedSlots, playbackMode } = body;
+  const fields = {};
+
+  if (name !== undefined) {
+    if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_NAME_LENGTH) {
+      return { error: `Board name must be 1-${MAX_NAME_LENGTH} characters` };
+    }
+    fields.name = name.trim();
+  }
+
+  if (soundIds !== undefined) {
+    if (!Array.isArray(soundIds) || soundIds.some(id => typeof id !== 'string' || !id)) {
+      return { error: 'soundIds must be an array of sound ids' };
+    }
+    fields.soundIds = [...new Set(soundIds)];
+  }
+
+  if (positions !== undefined) {
+    if (!positions || typeof positions !== 'object' || Array.isArray(positions)
+      || Object.values(positions).some(slot => slot === null || !isValidPosition(slot))) {
+      return { error: 'positions must map sound ids to slot numbers' };
+    }
+    fields.positions = { ...positions };
+  }
+
+  if (viewMode !== undefined) {
+    if (!VIEW_MODES.includes(viewMode)) {
+      return { error: `viewMode must be one of: ${VIEW_MODES.join(', ')}` };
+    }
+    fields.viewMode = viewMode;
+  }
+
+  if (sortBy !== undefined) {
+    if (!SORT_FIELDS.includes(sortBy)) {
+      return { error: `sortBy must be one of: ${SORT_FIELDS.join(', ')}` };
+    }
+    fields.sortBy = sortBy;
+  }
+
+  if (sortOrder !== undefined) {
+    if (!SORT_ORDERS.includes(sortOrder)) {
+      return { error: 'sortOrder must be "asc" or "desc"' };
+    }
+    fields.sortOrder = sortOrder;
+  }
+
+  if (fixedSlots !== undefined) {
+    if (typeof fixedSlots !== 'boolean') {
+      return { error: 'fixedSlots must be true or false' };
+    }
+    fields.fixedSlots = fixedSlots;
+  }
+
+  if (playbackMode !== undefined) {
+    if (!PLAYBACK_MODES.includes(playbackMode)) {
+      return { error: `playbackMode must be one of: ${PLAYBACK_MODES.join(', ')}` };
+    }
+    fields.playbackMode = playbackMode;
+  }
+
+  return { fields };
+}
+
+// Create a persistent store of boards kept next to the audio files
+export function createBoardStore(soundsDir) {
+  const boardsPath = path.join(soundsDir, BOARDS_FILENAME);
+  let boards = null;
+
+  const load = () => {
+    if (boards) return boards;
+
+    try {
+      boards = fs.existsSync(boardsPath)
+        ? JSON.parse(fs.readFileSync(boardsPath, 'utf8'))
+        : [];
+    } catch (error) {
+      console.error('❌ Failed to read boards, starting empty:', error);
+      boards = [];
+    }
+
+    return boards;
+  };
+
+  // Write to a temp file first so a crash never leaves half-written JSON
+  const save = () => {
+    const tmpPath = `${boardsPath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(boards, null, 2));
+    fs.renameSync(tmpPath, boardsPath);
+  };
+
+  return {
+    list() {
+      return load().map(withDefaults).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+
+    get(id) {
+      const board = load().find(b => b.id === id);
+      return board && withDefaults(board);
+    },
+
+    create(fields) {
+      load();
+
+      const now = new Date().toISOString();
+      const board = withDefaults({
+        id: uuidv4(),
+        soundIds: [],
+        ...fields,
+        createdAt: now,
+        updatedAt: now
+      });
+
+      boards.push(board);
+      save();
+      return board;
+    },
+
+    update(id, fields) {
+      load();
+
+      const index = boards.findIndex(board => board.id === id);
+      if (index === -1) return null;
+
+      const board = { ...withDefaults(boards[index]), ...fields, updatedAt: new Date().toISOString() };
+      // Slots only make sense for sounds that are on the board
+      board.positions = Object.fromEntries(Object.entries(board.positions).filter(([soundId]) => board.soundIds.includes(soundId)));
+      boards[index] = board;
+      save();
+      return boards[index];
+    },
+
+    remove(id) {
+      load();
+
+      const board = boards.find(b => b.id === id);
+      if (!board) return null;
+
+      boards = boards.filter(b => b.id !== id);
+      save();
+      return board;
+    },
+
+    // Boards a sound is on, with its manual slot - kept with a trashed sound
+    placesOf(soundId) {
+      return load()
+        .filter(board => board.soundIds.includes(soundId))
+        .map(board => ({ boardId: board.id, position: board.positions?.[soundId] ?? null }));
+    },
+
+    // Put a restored sound back on the boards that still exist; a slot taken meanwhile is dropped
+    restoreSound(soundId, places) {
+      load();
+
+      let changed = false;
+      places.forEach(({ boardId, position }) => {
+        const index = boards.findIndex(board => board.id === boardId);
+        if (index === -1 || boards[index].soundIds.includes(soundId)) return;
+
+        const board = withDefaults(boards[index]);
+        const slotFree = position !== null && !Object.values(board.positions).includes(position);
+        boards[index] = {
+          ...board,
+          soundIds: [...board.soundIds, soundId],
+          positions: slotFree ? { ...board.positions, [soundId]: position } : board.positions,
+          updatedAt: new Date().toISOString()
+        };
+        changed = true;
+      });
+
+      if (changed) save();
+    },
+
+    // Take a deleted sound off every board
+    removeSound(soundId) {
+      load();
+
+      let changed = false;
+      boards = boards.map(board => {
+        if (!board.soundIds.includes(soundId)) return board;
+        changed = true;
+        const { [soundId]: _removed, ...positions } = board.positions || {};
+        return { ...board, soundIds: board.soundIds.filter(id => id !== soundId), positions, updatedAt: new Date().toISOString() };
+      });
+
+      if (changed) save();
+    }
+  };
+}
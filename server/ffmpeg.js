@@ -0,0 +1,235 @@
+import fs from 'fs';
+import path from 'path';
+import { spawn } from 'child_process';
+
+// Ścieżka do binarki ffmpeg (w Dockerze /usr/bin/ffmpeg)
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+const FFMPEG_TIMEOUT = 2 * 60 * 1000; // 2 minuty na jeden klip
+
+// Raised when the ffmpeg binary is not installed on this machine
+export class FFmpegUnavailableError extends Error {
+  constructor() {
+    super(`ffmpeg binary not found (${FFMPEG_PATH})`);
+    this.name = 'FFmpegUnavailableError';
+  }
+}
+
+// Run ffmpeg with the given arguments. Resolves with the tail of stderr (measurements
+// and progress end up there), rejects with its last line on failure.
+export function runFFmpeg(args) {
+  return new Promise((resolve, reject) => {
+    const child = spawn(FFMPEG_PATH, ['-hide_banner', '-nostdin', '-y', ...args], {
+      stdio: ['ignore', 'ignore', 'pipe']
+    });
+
+    let stderr = '';
+    child.stderr.on('data', (chunk) => {
+      // Keep only the end - that's where ffmpeg prints the actual error
+      stderr = (stderr + chunk.toString()).slice(-4000);
+    });
+
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL');
+      reject(new Error('ffmpeg timed out'));
+    }, FFMPEG_TIMEOUT);
+
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error.code === 'ENOENT' ? new FFmpegUnavailableError() : error);
+    });
+
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve(stderr);
+      } else {
+        reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim().split('\n').pop()}`));
+      }
+    });
+  });
+}
+
+// Output formats the client can ask for; bitrate is ignored for copy and wav
+export const OUTPUT_FORMATS = {
+  copy: { extension: '.m4a', contentType: 'audio/mp4', codec: 'copy', hasBitrate: false },
+  opus: { extension: '.webm', contentType: 'audio/webm', codec: 'libopus', hasBitrate: true },
+  mp3: { extension: '.mp3', contentType: 'audio/mpeg', codec: 'libmp3lame', hasBitrate: true },
+  aac: { extension: '.m4a', contentType: 'audio/mp4', codec: 'aac', hasBitrate: true },
+  wav: { extension: '.wav', contentType: 'audio/wav', codec: 'pcm_s16le', hasBitrate: false }
+};
+
+export const DEFAULT_FORMAT = 'mp3';
+export const DEFAULT_BITRATE = 192;
+const MIN_BITRATE = 32;
+const MAX_BITRATE = 320;
+
+// Check a requested bitrate (kbps)
+export function isValidBitrate(bitrate) {
+  return Number.isInteger(bitrate) && bitrate >= MIN_BITRATE && bitrate <= MAX_BITRATE;
+}
+
+// Fade curves as named by ffmpeg's afade filter
+const FADE_CURVES = {
+  linear: 'tri',
+  'equal-power': 'qsin',
+  exponential: 'cub'
+};
+const NORMALIZE_TARGETS = {
+  peak: { min: -20, max: 0, default: -1 },
+  lufs: { min: -40, max: -5, default: -16 }
+};
+const MAX_FADE = 5;
+const LOUDNESS_PEAK_CEILING = -1;
+
+// Read clip effect fields from a multipart body (same names as the client's TrimSettings).
+// Returns { effects } or { error }.
+export function parseClipEffects(body) {
+  const effects = {};
+
+  const readNumber = (key, min, max) => {
+    if (body[key] === undefined || body[key] === '') return undefined;
+    const value = Number(body[key]);
+    if (!Number.isFinite(value) || value < min || value > max) {
+      throw new Error(`${key} must be between ${min} and ${max}`);
+    }
+    return value;
+  };
+
+  try {
+    effects.fadeIn = readNumber('fadeIn', 0, MAX_FADE) ?? 0;
+    effects.fadeOut = readNumber('fadeOut', 0, MAX_FADE) ?? 0;
+
+    effects.fadeCurve = body.fadeCurve || 'equal-power';
+    if (!Object.hasOwn(FADE_CURVES, effects.fadeCurve)) {
+      throw new Error(`Unsupported fade curve: ${effects.fadeCurve}`);
+    }
+
+    effects.normalize = body.normalize || 'off';
+    if (effects.normalize !== 'off') {
+      const range = NORMALIZE_TARGETS[effects.normalize];
+      if (!range) {
+        throw new Error(`Unsupported normalize mode: ${effects.normalize}`);
+      }
+      effects.normalizeTarget = readNumber('normalizeTarget', range.min, range.max) ?? range.default;
+    }
+
+    effects.trimSilence = body.trimSilence === 'true';
+    effects.silenceThreshold = readNumber('silenceThreshold', -90, -20) ?? -50;
+  } catch (error) {
+    return { error: error.message };
+  }
+
+  return { effects };
+}
+
+// Check if any effect is switched on
+function hasEffects(effects) {
+  return effects.fadeIn > 0 || effects.fadeOut > 0 || effects.normalize !== 'off' || effects.trimSilence;
+}
+
+// Silence removal from both ends (10ms kept around the sound, like the browser)
+function silenceFilters(effects) {
+  if (!effects.trimSilence) return [];
+  const remove = `silenceremove=start_periods=1:start_threshold=${effects.silenceThreshold}dB:start_silence=0.01`;
+  return [remove, 'areverse', remove, 'areverse'];
+}
+
+// Fades - the fade out runs on the reversed clip because its length is not known up front
+function fadeFilters(effects) {
+  const curve = FADE_CURVES[effects.fadeCurve];
+  const filters = [];
+  if (effects.fadeIn > 0) {
+    filters.push(`afade=t=in:d=${effects.fadeIn}:curve=${curve}`);
+  }
+  if (effects.fadeOut > 0) {
+    filters.push('areverse', `afade=t=in:d=${effects.fadeOut}:curve=${curve}`, 'areverse');
+  }
+  return filters;
+}
+
+// Measure the (silence trimmed) clip and work out the normalization gain in dB -
+// a plain volume change, the same as the browser pipeline does
+async function measureNormalizeGain(cutArgs, effects) {
+  const stderr = await runFFmpeg([
+    ...cutArgs,
+    '-af', [...silenceFilters(effects), 'ebur128', 'volumedetect'].join(','),
+    '-f', 'null', '-'
+  ]);
+
+  const peakMatch = /max_volume: (-?[\d.]+) dB/.exec(stderr);
+  if (!peakMatch) return 0; // Digital silence
+  const peak = parseFloat(peakMatch[1]);
+
+  if (effects.normalize === 'peak') {
+    return effects.normalizeTarget - peak;
+  }
+
+  const loudnessMatch = [...stderr.matchAll(/I:\s+(-?[\d.]+) LUFS/g)].pop();
+  if (!loudnessMatch) return 0;
+  return Math.min(effects.normalizeTarget - parseFloat(loudnessMatch[1]), LOUDNESS_PEAK_CEILING - peak);
+}
+
+// Length of the written output, from the last progress line
+function parseOutputDuration(stderr) {
+  const match = [...stderr.matchAll(/time=(\d+):(\d+):(\d+(?:\.\d+)?)/g)].pop();
+  if (!match) return null;
+  return parseInt(match[1], 10) * 3600 + parseInt(match[2], 10) * 60 + parseFloat(match[3]);
+}
+
+// Extract, trim, apply effects and encode the audio track of an uploaded file.
+// outputBase is the target path without extension - the format decides it.
+// 'copy' falls back to MP3 when the source codec does not fit into M4A, and is
+// not possible at all once effects change the audio.
+// Resolves with the path that was actually written, its content type and duration.
+export async function processClip(inputPath, outputBase, { startTime, endTime, format = DEFAULT_FORMAT, bitrate = DEFAULT_BITRATE, effects = null }) {
+  const cutArgs = [
+    '-ss', startTime.toString(),
+    '-i', inputPath,
+    '-t', (endTime - startTime).toString(),
+    '-vn'
+  ];
+
+  let filters = [];
+  if (effects && hasEffects(effects)) {
+    filters = silenceFilters(effects);
+    if (effects.normalize !== 'off') {
+      const gain = await measureNormalizeGain(cutArgs, effects);
+      console.log(`📢 Normalizing (${effects.normalize} ${effects.normalizeTarget}): ${gain.toFixed(2)} dB`);
+      filters.push(`volume=${gain.toFixed(2)}dB`);
+    }
+    filters.push(...fadeFilters(effects));
+  }
+  const filterArgs = filters.length > 0 ? ['-af', filters.join(',')] : [];
+
+  // ffmpeg writes to a dot-prefixed name (ignored by the sound list and express.static)
+  // and the file gets its real name only once it is complete
+  const encode = async (name, kbps) => {
+    const info = OUTPUT_FORMATS[name];
+    const outputPath = outputBase + info.extension;
+    const partialPath = path.join(path.dirname(outputBase), `.${path.basename(outputBase)}.part${info.extension}`);
+    const bitrateArgs = info.hasBitrate ? ['-b:a', `${kbps}k`] : [];
+    try {
+      const stderr = await runFFmpeg([...cutArgs, ...filterArgs, '-acodec', info.codec, ...bitrateArgs, partialPath]);
+      fs.renameSync(partialPath, outputPath);
+      return { outputPath, contentType: info.contentType, duration: parseOutputDuration(stderr) };
+    } finally {
+      fs.rmSync(partialPath, { force: true });
+    }
+  };
+
+  if (format !== 'copy') {
+    return encode(format, bitrate);
+  }
+
+  if (filterArgs.length > 0) {
+    return encode('mp3', DEFAULT_BITRATE);
+  }
+
+  try {
+    return await encode('copy');
+  } catch (error) {
+    if (error instanceof FFmpegUnavailableError) throw error;
+    console.log('⚠️ Stream copy not possible for this codec, re-encoding to MP3');
+    return encode('mp3', DEFAULT_BITRATE);
+  }
+}
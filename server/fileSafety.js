@@ -0,0 +1,130 @@
+import fs from 'fs';
+import path from 'path';
+import { AUDIO_EXTENSIONS } from './soundStore.js';
+
+// Video containers accepted as upload sources (the client extracts audio from them)
+export const VIDEO_EXTENSIONS = ['.mp4', '.m4v', '.mov', '.avi', '.mkv'];
+
+export const MEDIA_EXTENSIONS = [...AUDIO_EXTENSIONS, ...VIDEO_EXTENSIONS];
+
+// Bytes read from the start of a file to recognise its format
+const HEADER_LENGTH = 64;
+
+// Plain filename as stored in soundsDir: no separators, no parent references,
+// no hidden files (metadata lives in dotfiles), no control characters
+export function isSafeFilename(filename) {
+  return typeof filename === 'string'
+    && filename.length > 0
+    && filename.length <= 255
+    && filename === path.basename(filename)
+    && !filename.includes('/')
+    && !filename.includes('\\')
+    && !filename.startsWith('.')
+    && !/[\x00-\x1f]/.test(filename);
+}
+
+// Absolute path of an audio file inside soundsDir, or null when the name could
+// point anywhere else. The resolved path is checked as well, so a name that passes
+// the string checks on one platform still cannot escape on another.
+export function resolveSoundPath(soundsDir, filename) {
+  if (!isSafeFilename(filename) || !AUDIO_EXTENSIONS.includes(path.extname(filename).toLowerCase())) {
+    return null;
+  }
+
+  const root = path.resolve(soundsDir);
+  const filePath = path.resolve(root, filename);
+  return path.dirname(filePath) === root ? filePath : null;
+}
+
+// Container formats recognised by their leading bytes, with the extensions they may carry
+const SIGNATURES = [
+  {
+    type: 'wav',
+    extensions: ['.wav'],
+    matches: header => header.toString('ascii', 0, 4) === 'RIFF' && header.toString('ascii', 8, 12) === 'WAVE'
+  },
+  {
+    type: 'avi',
+    extensions: ['.avi'],
+    matches: header => header.toString('ascii', 0, 4) === 'RIFF' && header.toString('ascii', 8, 12) === 'AVI '
+  },
+  {
+    type: 'ogg',
+    extensions: ['.ogg', '.opus'],
+    matches: header => header.toString('ascii', 0, 4) === 'OggS'
+  },
+  {
+    // Matroska and WebM share the EBML header
+    type: 'ebml',
+    extensions: ['.webm', '.mkv'],
+    matches: header => header.length >= 4 && header.readUInt32BE(0) === 0x1A45DFA3
+  },
+  {
+    // ISO base media (MP4/M4A/MOV) - "ftyp" box first, older QuickTime files start with other boxes
+    type: 'mp4',
+    extensions: ['.m4a', '.mp4', '.m4v', '.mov'],
+    matches: header => ['ftyp', 'moov', 'mdat', 'wide', 'free'].includes(header.toString('ascii', 4, 8))
+  },
+  {
+    // ID3 tag - MP3 usually, but AAC streams can carry one too
+    type: 'id3',
+    extensions: ['.mp3', '.aac'],
+    matches: header => header.toString('ascii', 0, 3) === 'ID3'
+  },
+  {
+    // ADTS frame: 12-bit sync, layer bits 00
+    type: 'aac',
+    extensions: ['.aac'],
+    matches: header => header.length >= 2 && header[0] === 0xFF && (header[1] & 0xF6) === 0xF0
+  },
+  {
+    // MPEG audio frame: 11-bit sync, layer bits not 00
+    type: 'mpeg',
+    extensions: ['.mp3'],
+    matches: header => header.length >= 2 && header[0] === 0xFF && (header[1] & 0xE0) === 0xE0 && (header[1] & 0x06) !== 0
+  }
+];
+
+// Recognise a media container from the first bytes of a file
+export function sniffMediaType(header) {
+  return SIGNATURES.find(signature => signature.matches(header)) || null;
+}
+
+// Read the first bytes of a file
+function readHeader(filePath) {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const header = Buffer.alloc(HEADER_LENGTH);
+    const bytesRead = fs.readSync(fd, header, 0, HEADER_LENGTH, 0);
+    return header.subarray(0, bytesRead);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+// Check that the leading bytes of a file are media of the kind its name claims.
+// Returns { type } or { error } - the client's mimetype is never trusted.
+export function checkMediaContent(header, filename, allowedExtensions = MEDIA_EXTENSIONS) {
+  const ext = path.extname(filename || '').toLowerCase();
+
+  if (!allowedExtensions.includes(ext)) {
+    return { error: `Unsupported file extension: ${ext || '(none)'}` };
+  }
+
+  const detected = sniffMediaType(header);
+
+  if (!detected) {
+    return { error: 'File content is not a recognised audio or video format' };
+  }
+
+  if (!detected.extensions.includes(ext)) {
+    return { error: `File content (${detected.type}) does not match its ${ext} extension` };
+  }
+
+  return { type: detected.type };
+}
+
+// Same check for a file on disk (multer upload), named after the client's original filename
+export function checkMediaFile(filePath, originalName, allowedExtensions = MEDIA_EXTENSIONS) {
+  return checkMediaContent(readHeader(filePath), originalName, allowedExtensions);
+}
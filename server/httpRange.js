@@ -0,0 +1,65 @@
+// Validator built from size and mtime. Sound files are written once and never
+// modified in place, so it can be strong - If-Range only accepts strong ETags.
+export function createETag(stats) {
+  return `"${stats.size.toString(16)}-${stats.mtime.getTime().toString(16)}"`;
+}
+
+// Check If-None-Match / If-Modified-Since against the current file
+export function isNotModified(req, etag, lastModified) {
+  const ifNoneMatch = req.headers['if-none-match'];
+  if (ifNoneMatch) {
+    return ifNoneMatch === '*' || ifNoneMatch.split(',').some(tag => tag.trim().replace(/^W\//, '') === etag);
+  }
+
+  const ifModifiedSince = req.headers['if-modified-since'];
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince);
+    // HTTP dates have second precision
+    return !Number.isNaN(since) && Math.floor(lastModified.getTime() / 1000) <= Math.floor(since / 1000);
+  }
+
+  return false;
+}
+
+// If-Range lets the client resume only while the file is unchanged
+export function isRangeStillValid(req, etag, lastModified) {
+  const ifRange = req.headers['if-range'];
+  if (!ifRange) return true;
+
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+    return ifRange === etag;
+  }
+
+  const date = Date.parse(ifRange);
+  return !Number.isNaN(date) && Math.floor(lastModified.getTime() / 1000) === Math.floor(date / 1000);
+}
+
+// Parse a single "bytes=" range. Returns { start, end }, null when the header should
+// be ignored (missing, malformed, multipart) or 'unsatisfiable'.
+export function parseRange(header, size) {
+  if (!header) return null;
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match) return null;
+
+  const [, startText, endText] = match;
+  if (!startText && !endText) return null;
+
+  let start;
+  let end;
+
+  if (!startText) {
+    // Suffix range: last N bytes
+    const suffix = parseInt(endText, 10);
+    if (suffix === 0) return 'unsatisfiable';
+    start = Math.max(0, size - suffix);
+    end = size - 1;
+  } else {
+    start = parseInt(startText, 10);
+    end = endText ? Math.min(parseInt(endText, 10), size - 1) : size - 1;
+  }
+
+  if (start >= size || start > end) return 'unsatisfiable';
+
+  return { start, end };
+}
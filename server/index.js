@@ -1,28 +1,53 @@
+import 'dotenv/config';
 import express from 'express';
 import multer from 'multer';
 import cors from 'cors';
 import path from 'path';
 import fs from 'fs';
+import os from 'os';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
+import { createSoundStore, getContentType, validateSoundFields, isValidPosition, AUDIO_EXTENSIONS } from './soundStore.js';
+import { createBoardStore, validateBoardFields } from './boardStore.js';
+import { createTrashStore, parseRetentionDays } from './trashStore.js';
+import { createLiveEvents, createCoalescer } from './liveEvents.js';
+import { streamArchive, readArchive, uniqueFilename } from './archive.js';
+import { createETag, isNotModified, isRangeStillValid, parseRange } from './httpRange.js';
+import { createAuth, createLoginThrottle, hasRole, SESSION_COOKIE } from './auth.js';
+import { resolveSoundPath, checkMediaFile, checkMediaContent, MEDIA_EXTENSIONS } from './fileSafety.js';
+import { processClip, FFmpegUnavailableError, OUTPUT_FORMATS, DEFAULT_FORMAT, DEFAULT_BITRATE, isValidBitrate, parseClipEffects } from './ffmpeg.js';
 
 const app = express();
 const PORT = process.env.PORT || 5000;
 
+// Accounts, shared token and roles from .env (auth is off when none are configured)
+const auth = createAuth();
+const { requireRole } = auth;
+
+// Guessing passwords: too many failed logins from one IP are refused for a while
+const loginThrottle = createLoginThrottle();
+
 // ES modules equivalent of __dirname
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+// Audio files and their metadata (SOUNDS_DIR overrides it, e.g. in tests)
+const soundsDir = process.env.SOUNDS_DIR ? path.resolve(process.env.SOUNDS_DIR) : path.join(__dirname, '../public/sounds');
+
 // Middleware
 app.use(cors());
-app.use(express.json({ limit: '100mb' })); // Zwiększ limit JSON do 100MB
-app.use(express.urlencoded({ limit: '100mb', extended: true })); // Zwiększ limit URL-encoded
+// Audio goes through multipart uploads, JSON only carries metadata
+app.use(express.json({ limit: '5mb' }));
+app.use(express.urlencoded({ limit: '5mb', extended: true }));
+
+// Serve sounds directory (before the Vite build, which contains public/sounds too)
+app.use('/sounds', auth.authenticate, requireRole('viewer'), express.static(soundsDir));
 
 // Serve static files from Vite build
 app.use(express.static(path.join(__dirname, '../public')));
 
-// Serve sounds directory
-app.use('/sounds', express.static(path.join(__dirname, '../public/sounds')));
+// Every API route knows who is asking (req.user)
+app.use('/api', auth.authenticate);
 
 // Middleware do obsługi dużych plików - usunięty problematyczny Content-Length
 app.use((req, res, next) => {
@@ -31,35 +56,123 @@ app.use((req, res, next) => {
 });
 
 // Create sounds directory if it doesn't exist
-const soundsDir = path.join(__dirname, '../public/sounds');
 if (!fs.existsSync(soundsDir)) {
   fs.mkdirSync(soundsDir, { recursive: true });
 }
 
+// Named boards that reference sound records by id
+const boardStore = createBoardStore(soundsDir);
+
+// Persistent Sound records (ids, titles, durations) stored next to the files.
+// A file removed by hand takes its sound off the boards too.
+const soundStore = createSoundStore(soundsDir, {
+  onMissingFiles: (records) => {
+    records.forEach(record => boardStore.removeSound(record.id));
+    publishBoards();
+  }
+});
+
+// Deleted sounds, restorable until TRASH_RETENTION_DAYS have passed
+const trashStore = createTrashStore(soundsDir, { retentionDays: parseRetentionDays(process.env.TRASH_RETENTION_DAYS) });
+
+// How often expired sounds are purged from the trash
+const TRASH_SWEEP_INTERVAL = 60 * 60 * 1000; // 1h
+
+// Changes pushed to every open browser (GET /api/events)
+const liveEvents = createLiveEvents();
+
+// Boards are small - send them whole instead of making every client refetch
+const publishBoards = () => liveEvents.publish('boards.changed', { boards: boardStore.list() });
+
+// Play counts go out in batches - a busy board would send an event per click
+const publishPlay = createCoalescer(sounds => liveEvents.publish('sound.played', { sounds }));
+
+// Largest audio/video file accepted - uploads and every sound inside an archive
+const MAX_UPLOAD_SIZE = 100 * 1024 * 1024; // 100MB
+
 // Configure multer for file uploads
 const storage = multer.diskStorage({
   destination: function (req, file, cb) {
     cb(null, soundsDir);
   },
   filename: function (req, file, cb) {
-    // Generate unique filename
+    // Generate unique filename - only the (already filtered) extension comes from the client
     const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-    const ext = path.extname(file.originalname);
+    const ext = path.extname(file.originalname).toLowerCase();
     cb(null, file.fieldname + '-' + uniqueSuffix + ext);
   }
 });
 
+// Upload filter by extension only - the mimetype is whatever the client claims,
+// so the saved file is sniffed afterwards (rejectMismatchedUpload)
+function mediaFileFilter(extensions) {
+  return function (req, file, cb) {
+    const ext = path.extname(file.originalname).toLowerCase();
+    if (extensions.includes(ext)) {
+      cb(null, true);
+    } else {
+      const error = new Error(`Unsupported file type: ${ext || file.mimetype}`);
+      error.status = 415;
+      cb(error);
+    }
+  };
+}
+
+// Remove an uploaded file whose content does not match its extension.
+// Returns true when the request has been answered with 415.
+function rejectMismatchedUpload(req, res, extensions = MEDIA_EXTENSIONS) {
+  const { type, error } = checkMediaFile(req.file.path, req.file.originalname, extensions);
+  
+  if (error) {
+    console.warn('🚫 Rejected upload:', req.file.originalname, '-', error);
+    fs.unlink(req.file.path, () => {});
+    res.status(415).json({ error });
+    return true;
+  }
+  
+  console.log(`🔍 Detected ${type} content in ${req.file.originalname}`);
+  return false;
+}
+
 const upload = multer({
   storage: storage,
   limits: {
-    fileSize: 100 * 1024 * 1024, // 100MB limit
+    fileSize: MAX_UPLOAD_SIZE,
+  },
+  fileFilter: mediaFileFilter(MEDIA_EXTENSIONS)
+});
+
+// Trimmed clips share the upload storage but must be audio with a known extension
+const trimmedUpload = multer({
+  storage: storage,
+  limits: {
+    fileSize: MAX_UPLOAD_SIZE,
+    files: 1
+  },
+  fileFilter: mediaFileFilter(AUDIO_EXTENSIONS)
+});
+
+// Originals for server-side processing go to a temp dir and are removed afterwards
+const processUpload = multer({
+  dest: os.tmpdir(),
+  limits: {
+    fileSize: MAX_UPLOAD_SIZE,
+    files: 1
+  },
+  fileFilter: mediaFileFilter(MEDIA_EXTENSIONS)
+});
+
+// Board archives are unpacked from a temp file, never from soundsDir
+const archiveUpload = multer({
+  dest: os.tmpdir(),
+  limits: {
+    fileSize: 500 * 1024 * 1024, // 500MB limit
   },
   fileFilter: function (req, file, cb) {
-    // Check file type
-    if (file.mimetype.startsWith('audio/') || file.mimetype.startsWith('video/')) {
+    if (file.mimetype === 'application/zip' || file.mimetype === 'application/x-zip-compressed' || file.originalname.toLowerCase().endsWith('.zip')) {
       cb(null, true);
     } else {
-      cb(new Error('Only audio and video files are allowed'));
+      cb(new Error('Only ZIP archives are allowed'));
     }
   }
 });
@@ -71,56 +184,475 @@ app.get('/api/health', (req, res) => {
   res.json({ status: 'OK', timestamp: new Date().toISOString() });
 });
 
+// Who is logged in - the client hides actions the role does not allow
+app.get('/api/auth/session', (req, res) => {
+  res.json({ authEnabled: auth.enabled, user: req.user });
+});
+
+// Log in with { username, password } or { token } - the session goes into an HttpOnly cookie
+app.post('/api/auth/login', (req, res) => {
+  const retryAfter = loginThrottle.retryAfter(req.ip);
+  if (retryAfter > 0) {
+    res.set('Retry-After', String(retryAfter));
+    return res.status(429).json({ error: 'Too many failed logins - try again later' });
+  }
+  
+  const user = auth.login(req.body);
+  
+  if (!user) {
+    console.warn('🔒 Failed login attempt:', typeof req.body.username === 'string' ? req.body.username : '(token)', req.ip);
+    if (auth.enabled) loginThrottle.fail(req.ip);
+    return res.status(401).json({ error: auth.enabled ? 'Invalid credentials' : 'Authentication is not enabled' });
+  }
+  
+  loginThrottle.succeed(req.ip);
+  
+  const session = auth.createSession(user);
+  res.cookie(SESSION_COOKIE, session, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: req.secure,
+    maxAge: auth.sessionMaxAge * 1000
+  });
+  
+  console.log(`🔓 ${user.name} logged in (${user.role})`);
+  // The session stays in the HttpOnly cookie - page scripts never see it
+  res.json({ user });
+});
+
+app.post('/api/auth/logout', (req, res) => {
+  res.clearCookie(SESSION_COOKIE, { httpOnly: true, sameSite: 'strict', secure: req.secure });
+  res.json({ message: 'Logged out' });
+});
+
+// Live updates as Server-Sent Events - the stream stays open until the browser leaves
+app.get('/api/events', requireRole('viewer'), (req, res) => {
+  liveEvents.subscribe(req, res);
+  console.log(`📡 Live client connected (${liveEvents.clientCount} open)`);
+});
+
 // Get all sounds
-app.get('/api/sounds', (req, res) => {
+app.get('/api/sounds', requireRole('viewer'), (req, res) => {
   try {
-    console.log('🎵 GET /api/sounds - Reading sounds directory...');
-    console.log('📁 Sounds directory:', soundsDir);
+    console.log('🎵 GET /api/sounds - Reading sound records...');
     
-    const sounds = [];
-    const files = fs.readdirSync(soundsDir);
+    const sounds = soundStore.list();
     
-    console.log('📂 All files in directory:', files);
+    console.log(`🎵 Total sounds found: ${sounds.length}`);
     
-    files.forEach(file => {
-      // Akceptuj więcej formatów audio
-      if (file.endsWith('.mp3') || file.endsWith('.wav') || file.endsWith('.m4a') || file.endsWith('.ogg')) {
-        const filePath = path.join(soundsDir, file);
-        const stats = fs.statSync(filePath);
-        
-        const sound = {
-          filename: file,
-          size: stats.size,
-          createdAt: stats.birthtime,
-          modifiedAt: stats.mtime,
-          filePath: `/api/sounds/${file}`, // Pełna ścieżka do endpointu
-          publicPath: `/sounds/${file}` // Ścieżka do public/sounds
-        };
-        
-        sounds.push(sound);
-        console.log('🎵 Sound found:', sound);
-      } else {
-        console.log('⚠️ Skipping non-audio file:', file);
+    res.json(sounds);
+  } catch (error) {
+    console.error('❌ Error reading sound records:', error);
+    res.status(500).json({ error: 'Failed to read sounds', details: error.message });
+  }
+});
+
+// Create a sound record for an uploaded file
+app.post('/api/sounds', requireRole('editor'), (req, res) => {
+  try {
+    const { filename, fileType } = req.body;
+    
+    if (!resolveSoundPath(soundsDir, filename) || !soundStore.hasFile(filename)) {
+      return res.status(400).json({ error: 'Missing or unknown filename', filename });
+    }
+    
+    const { fields, error } = validateSoundFields(req.body);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    
+    // A record for this file may exist already - create() updates it then
+    const conflict = soundStore.findHotkeyConflict(fields.hotkey, soundStore.findByFilename(filename)?.id);
+    if (conflict) {
+      return res.status(409).json({ error: `Hotkey ${fields.hotkey} is already used by "${conflict.title}"`, id: conflict.id });
+    }
+    
+    const sound = soundStore.create({ ...fields, filename, fileType });
+    
+    console.log('🆕 Sound record created:', sound);
+    liveEvents.publish('sound.created', { sounds: [sound] });
+    res.status(201).json(sound);
+  } catch (error) {
+    console.error('❌ Error creating sound record:', error);
+    res.status(500).json({ error: 'Failed to create sound' });
+  }
+});
+
+// Count a play of a sound (play count and last played time)
+app.post('/api/sounds/:id/play', requireRole('viewer'), (req, res) => {
+  try {
+    const sound = soundStore.recordPlay(req.params.id);
+    if (!sound) {
+      return res.status(404).json({ error: 'Sound not found', id: req.params.id });
+    }
+    publishPlay(sound);
+    res.json(sound);
+  } catch (error) {
+    console.error('❌ Error recording play:', error);
+    res.status(500).json({ error: 'Failed to record play' });
+  }
+});
+
+// Save the manual layout of "All sounds" - { positions: { [id]: slot | null } }
+app.patch('/api/sounds/positions', requireRole('editor'), (req, res) => {
+  try {
+    const { positions } = req.body;
+    
+    if (!positions || typeof positions !== 'object' || Array.isArray(positions)
+      || !Object.values(positions).every(isValidPosition)) {
+      return res.status(400).json({ error: 'positions must map sound ids to slot numbers' });
+    }
+    
+    const updated = soundStore.updatePositions(positions);
+    console.log(`↕️ Saved layout positions of ${updated.length} sounds`);
+    liveEvents.publish('sound.updated', { sounds: updated });
+    res.json(updated);
+  } catch (error) {
+    console.error('❌ Error saving positions:', error);
+    res.status(500).json({ error: 'Failed to save positions' });
+  }
+});
+
+// Update a sound record. With { expected: { field: value the client saw } } an edit
+// of a field someone else has changed meanwhile is refused with 409 and the current record.
+app.patch('/api/sounds/:id', requireRole('editor'), (req, res) => {
+  try {
+    const { fields, error } = validateSoundFields(req.body);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    
+    const { expected } = req.body;
+    if (expected !== undefined && (!expected || typeof expected !== 'object' || Array.isArray(expected))) {
+      return res.status(400).json({ error: 'expected must be an object of field values' });
+    }
+    
+    const changed = soundStore.findEditConflicts(req.params.id, fields, expected);
+    if (changed.length > 0) {
+      const current = soundStore.get(req.params.id);
+      console.log(`⚔️ Edit conflict on "${current.title}":`, changed);
+      return res.status(409).json({
+        error: `"${current.title}" was changed by someone else meanwhile (${changed.join(', ')})`,
+        fields: changed,
+        sound: current
+      });
+    }
+    
+    const conflict = soundStore.findHotkeyConflict(fields.hotkey, req.params.id);
+    if (conflict) {
+      return res.status(409).json({ error: `Hotkey ${fields.hotkey} is already used by "${conflict.title}"`, id: conflict.id });
+    }
+    
+    const sound = soundStore.update(req.params.id, fields);
+    
+    if (!sound) {
+      return res.status(404).json({ error: 'Sound not found', id: req.params.id });
+    }
+    
+    console.log('✏️ Sound record updated:', sound);
+    liveEvents.publish('sound.updated', { sounds: [sound] });
+    res.json(sound);
+  } catch (error) {
+    console.error('❌ Error updating sound record:', error);
+    res.status(500).json({ error: 'Failed to update sound' });
+  }
+});
+
+// Import sound metadata from a JSON export (merge or replace)
+app.post('/api/sounds/import', requireRole('admin'), (req, res) => {
+  try {
+    const { sounds, mode = 'merge' } = req.body;
+    
+    if (!Array.isArray(sounds)) {
+      return res.status(400).json({ error: 'Expected an array of sounds' });
+    }
+    
+    if (mode !== 'merge' && mode !== 'replace') {
+      return res.status(400).json({ error: 'Mode must be "merge" or "replace"' });
+    }
+    
+    const entries = [];
+    const skipped = [];
+    
+    sounds.forEach((sound, index) => {
+      const filename = sound?.filename || (typeof sound?.audioUrl === 'string' && sound.audioUrl.startsWith('/api/sounds/')
+        ? decodeURIComponent(sound.audioUrl.slice('/api/sounds/'.length))
+        : null);
+      const { fields, error } = validateSoundFields(sound || {});
+      
+      if (!filename || error) {
+        skipped.push({ title: sound?.title || `Entry ${index + 1}`, reason: error || 'No server file referenced' });
+        return;
       }
+      
+      entries.push({ id: sound.id, filename, fields });
     });
     
-    console.log(`🎵 Total sounds found: ${sounds.length}`);
-    console.log('🎵 Returning sounds:', sounds);
+    const result = soundStore.importRecords(entries, mode);
     
-    res.json(sounds);
+    if (mode === 'replace' && result.imported.length === 0) {
+      return res.status(400).json({ error: 'Nothing to import - refusing to replace the board with an empty list' });
+    }
+    
+    // Replace mode removes sounds that were not part of the import - into the trash.
+    // One that cannot go there stays in the library, nothing is deleted for good.
+    const warnings = [...result.warnings];
+    let removed = 0;
+    result.removed.forEach(record => {
+      try {
+        trashStore.trash(record, boardStore.placesOf(record.id));
+        boardStore.removeSound(record.id);
+        removed++;
+      } catch (error) {
+        console.error(`❌ Could not move ${record.filename} to trash, keeping it:`, error);
+        soundStore.restore(record);
+        warnings.push({ title: record.title, reason: `Could not move to the trash (${describeDeleteError(error)}) - kept` });
+      }
+    });
+    
+    console.log(`📥 Imported ${result.imported.length} sounds (${mode}), skipped ${skipped.length + result.skipped.length}, removed ${removed}`);
+    liveEvents.publish('resync'); // Too many changes to send one by one
+    
+    res.json({
+      sounds: soundStore.list(),
+      imported: result.imported.length,
+      removed,
+      skipped: [...skipped, ...result.skipped],
+      warnings
+    });
+  } catch (error) {
+    console.error('❌ Error importing sounds:', error);
+    res.status(500).json({ error: 'Failed to import sounds' });
+  }
+});
+
+// List boards
+app.get('/api/boards', requireRole('viewer'), (req, res) => {
+  try {
+    res.json(boardStore.list());
+  } catch (error) {
+    console.error('❌ Error listing boards:', error);
+    res.status(500).json({ error: 'Failed to list boards' });
+  }
+});
+
+// Create a board
+app.post('/api/boards', requireRole('editor'), (req, res) => {
+  try {
+    const { fields, error } = validateBoardFields(req.body);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    
+    if (!fields.name) {
+      return res.status(400).json({ error: 'Board name is required' });
+    }
+    
+    const board = boardStore.create(fields);
+    console.log('🗂️ Board created:', board.name);
+    publishBoards();
+    res.status(201).json(board);
+  } catch (error) {
+    console.error('❌ Error creating board:', error);
+    res.status(500).json({ error: 'Failed to create board' });
+  }
+});
+
+// Rename a board, change its sounds or layout
+app.patch('/api/boards/:id', requireRole('editor'), (req, res) => {
+  try {
+    const { fields, error } = validateBoardFields(req.body);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    
+    if (fields.soundIds) {
+      const unknown = fields.soundIds.filter(id => !soundStore.get(id));
+      if (unknown.length > 0) {
+        return res.status(400).json({ error: 'Unknown sound ids', ids: unknown });
+      }
+    }
+    
+    const board = boardStore.update(req.params.id, fields);
+    if (!board) {
+      return res.status(404).json({ error: 'Board not found', id: req.params.id });
+    }
+    
+    publishBoards();
+    res.json(board);
+  } catch (error) {
+    console.error('❌ Error updating board:', error);
+    res.status(500).json({ error: 'Failed to update board' });
+  }
+});
+
+// Delete a board - its sounds stay in the library
+app.delete('/api/boards/:id', requireRole('editor'), (req, res) => {
+  try {
+    const board = boardStore.remove(req.params.id);
+    if (!board) {
+      return res.status(404).json({ error: 'Board not found', id: req.params.id });
+    }
+    
+    console.log('🗑️ Board deleted:', board.name);
+    publishBoards();
+    res.json({ message: 'Board deleted successfully', id: board.id });
+  } catch (error) {
+    console.error('❌ Error deleting board:', error);
+    res.status(500).json({ error: 'Failed to delete board' });
+  }
+});
+
+// Export the whole board (manifest + audio files) as a ZIP archive
+app.get('/api/export', requireRole('viewer'), async (req, res) => {
+  try {
+    const sounds = soundStore.list();
+    const archiveName = `sounds-archive-${new Date().toISOString().split('T')[0]}.zip`;
+    
+    console.log(`📦 Exporting ${sounds.length} sounds to archive`);
+    
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${archiveName}"`);
+    
+    const archive = await streamArchive(res, sounds, soundsDir);
+    console.log(`✅ Archive sent: ${archive.pointer()} bytes`);
+  } catch (error) {
+    console.error('❌ Error exporting archive:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Failed to export archive' });
+    } else {
+      res.end();
+    }
+  }
+});
+
+// Import a board archive - files get new names if they collide with existing ones
+app.post('/api/import', requireRole('admin'), archiveUpload.single('archive'), (req, res) => {
+  if (!req.file) {
+    return res.status(400).json({ error: 'No archive uploaded' });
+  }
+  
+  try {
+    let archive;
+    try {
+      archive = readArchive(req.file.path, { maxFileSize: MAX_UPLOAD_SIZE });
+    } catch (error) {
+      return res.status(400).json({ error: error.message });
+    }
+    
+    const skipped = [];
+    const warnings = [];
+    
+    // 1. Check every entry before anything is written
+    const accepted = [];
+    archive.sounds.forEach((sound, index) => {
+      const title = sound?.title || `Entry ${index + 1}`;
+      const { fields, error } = validateSoundFields(sound || {});
+      
+      if (error) {
+        skipped.push({ title, reason: error });
+        return;
+      }
+      
+      if (sound.id && soundStore.get(sound.id)) {
+        skipped.push({ title, reason: 'Already on this board' });
+        return;
+      }
+      
+      const { data, error: readError } = archive.readSound(sound.filename);
+      if (readError) {
+        skipped.push({ title, reason: readError });
+        return;
+      }
+      
+      const { error: contentError } = checkMediaContent(data.subarray(0, 64), sound.filename, AUDIO_EXTENSIONS);
+      if (contentError) {
+        skipped.push({ title, reason: contentError });
+        return;
+      }
+      
+      accepted.push({ sound, title, fields });
+    });
+    
+    // 2. Write the files and their records - all of them or none
+    const written = [];
+    const added = [];
+    try {
+      accepted.forEach(({ sound }) => {
+        const filename = uniqueFilename(soundsDir, sound.filename);
+        fs.writeFileSync(path.join(soundsDir, filename), archive.readSound(sound.filename).data);
+        written.push(filename);
+        
+        if (filename !== sound.filename) {
+          console.log(`📝 Renamed imported file ${sound.filename} -> ${filename}`);
+        }
+      });
+      
+      accepted.forEach(({ sound, title, fields }, index) => {
+        // Sounds already here keep their hotkeys
+        if (soundStore.findHotkeyConflict(fields.hotkey)) {
+          warnings.push({ title, reason: `Hotkey ${fields.hotkey} is already used - removed` });
+          fields.hotkey = null;
+        }
+        
+        added.push(soundStore.addImported(written[index], {
+          ...fields,
+          id: sound.id,
+          createdAt: sound.createdAt,
+          fileType: typeof sound.fileType === 'string' ? sound.fileType : undefined
+        }));
+      });
+    } catch (error) {
+      console.error('❌ Archive import failed, rolling back:', error);
+      added.forEach(record => {
+        try {
+          soundStore.remove(record.id);
+        } catch (removeError) {
+          console.error(`❌ Could not remove imported record ${record.id}:`, removeError);
+        }
+      });
+      written.forEach(filename => {
+        try {
+          removeSoundFile(filename);
+        } catch (removeError) {
+          console.error(`❌ Could not remove imported file ${filename}:`, removeError);
+        }
+      });
+      throw error;
+    }
+    const imported = added.length;
+    
+    console.log(`📥 Archive import: ${imported} imported, ${skipped.length} skipped`);
+    if (imported > 0) {
+      liveEvents.publish('resync');
+    }
+    
+    res.json({
+      sounds: soundStore.list(),
+      imported,
+      removed: 0,
+      skipped,
+      warnings
+    });
   } catch (error) {
-    console.error('❌ Error reading sounds directory:', error);
-    res.status(500).json({ error: 'Failed to read sounds directory', details: error.message });
+    console.error('❌ Error importing archive:', error);
+    res.status(500).json({ error: 'Failed to import archive' });
+  } finally {
+    fs.unlink(req.file.path, () => {});
   }
 });
 
 // Upload audio file
-app.post('/api/upload', upload.single('audio'), (req, res) => {
+app.post('/api/upload', requireRole('editor'), upload.single('audio'), (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({ error: 'No file uploaded' });
     }
     
+    if (rejectMismatchedUpload(req, res)) {
+      return;
+    }
+    
     res.json({
       message: 'File uploaded successfully',
       filename: req.file.filename,
@@ -134,47 +666,43 @@ app.post('/api/upload', upload.single('audio'), (req, res) => {
   }
 });
 
-// Save trimmed audio file
-app.post('/api/sounds/save-trimmed', (req, res) => {
+// Save trimmed audio file (multipart: "title" field followed by the "audio" file)
+app.post('/api/sounds/save-trimmed', requireRole('editor'), trimmedUpload.single('audio'), (req, res) => {
   try {
     console.log('📥 Received save-trimmed request');
-    console.log('📊 Request body size:', JSON.stringify(req.body).length, 'characters');
     
-    const { audioData, filename, title } = req.body;
-    
-    if (!audioData || !filename) {
-      return res.status(400).json({ error: 'Missing audio data or filename' });
+    if (!req.file) {
+      return res.status(400).json({ error: 'No audio file uploaded' });
     }
     
-    console.log('🔍 Audio data type:', typeof audioData);
-    console.log('🔍 Audio data length:', audioData.length);
-    console.log('🔍 Filename:', filename);
-    console.log('🔍 Title:', title);
+    const title = typeof req.body.title === 'string' ? req.body.title.trim() : '';
     
-    // Convert base64 to buffer
-    const base64Data = audioData.replace(/^data:audio\/wav;base64,/, '');
-    console.log('🔍 Base64 data length (after cleanup):', base64Data.length);
+    if (!title || req.file.size === 0) {
+      fs.unlinkSync(req.file.path);
+      return res.status(400).json({ error: !title ? 'Missing title' : 'Uploaded audio is empty' });
+    }
     
-    const audioBuffer = Buffer.from(base64Data, 'base64');
-    console.log('🔍 Buffer size:', audioBuffer.length, 'bytes');
+    if (rejectMismatchedUpload(req, res, AUDIO_EXTENSIONS)) {
+      return;
+    }
     
-    // Generate unique filename
-    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-    const finalFilename = `${title.replace(/[^a-zA-Z0-9]/g, '_')}_${uniqueSuffix}.wav`;
-    const filePath = path.join(soundsDir, finalFilename);
+    console.log('🔍 Title:', title);
+    console.log('🔍 Mimetype:', req.file.mimetype);
+    console.log('🔍 File size:', req.file.size, 'bytes');
     
-    // Write file to disk
-    fs.writeFileSync(filePath, audioBuffer);
+    // Rename the multer file to "<title>_<unique>.<ext>"
+    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+    const ext = path.extname(req.file.originalname).toLowerCase();
+    const finalFilename = `${title.replace(/[^a-zA-Z0-9]/g, '_')}_${uniqueSuffix}${ext}`;
+    fs.renameSync(req.file.path, path.join(soundsDir, finalFilename));
     
     console.log(`💾 Saved trimmed audio: ${finalFilename}`);
-    console.log(`📁 File path: ${filePath}`);
-    console.log(`📊 File size on disk: ${fs.statSync(filePath).size} bytes`);
     
     res.json({
       message: 'Trimmed audio saved successfully',
       filename: finalFilename,
       filePath: `/api/sounds/${finalFilename}`,
-      size: audioBuffer.length
+      size: req.file.size
     });
     
   } catch (error) {
@@ -183,54 +711,154 @@ app.post('/api/sounds/save-trimmed', (req, res) => {
   }
 });
 
+// Extract, trim and encode on the server (fallback for weak devices)
+app.post('/api/process', requireRole('editor'), processUpload.single('file'), async (req, res) => {
+  if (!req.file) {
+    return res.status(400).json({ error: 'No file uploaded' });
+  }
+  
+  if (rejectMismatchedUpload(req, res)) {
+    return;
+  }
+  
+  let outputBase = null;
+  
+  try {
+    const title = typeof req.body.title === 'string' ? req.body.title.trim() : '';
+    const startTime = parseFloat(req.body.startTime);
+    const endTime = parseFloat(req.body.endTime);
+    const format = req.body.format || DEFAULT_FORMAT;
+    const bitrate = req.body.bitrate ? Number(req.body.bitrate) : DEFAULT_BITRATE;
+    
+    if (!title) {
+      return res.status(400).json({ error: 'Missing title' });
+    }
+    
+    if (!Number.isFinite(startTime) || !Number.isFinite(endTime) || startTime < 0 || endTime <= startTime) {
+      return res.status(400).json({ error: 'Invalid trim settings: start time must be >= 0 and less than end time' });
+    }
+    
+    if (!Object.hasOwn(OUTPUT_FORMATS, format)) {
+      return res.status(400).json({ error: `Unsupported output format: ${format}` });
+    }
+    
+    if (!isValidBitrate(bitrate)) {
+      return res.status(400).json({ error: 'Invalid bitrate' });
+    }
+    
+    const { effects, error: effectsError } = parseClipEffects(req.body);
+    if (effectsError) {
+      return res.status(400).json({ error: effectsError });
+    }
+    
+    console.log(`🎬 Processing ${req.file.originalname} on server: ${startTime}s - ${endTime}s (${format})`);
+    
+    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+    outputBase = path.join(soundsDir, `${title.replace(/[^a-zA-Z0-9]/g, '_')}_${uniqueSuffix}`);
+    
+    const { outputPath, contentType, duration } = await processClip(req.file.path, outputBase, { startTime, endTime, format, bitrate, effects });
+    
+    const sound = soundStore.create({
+      filename: path.basename(outputPath),
+      title,
+      // Silence trimming makes the clip shorter than the requested range
+      duration: duration ?? endTime - startTime,
+      fileType: contentType
+    });
+    
+    console.log('✅ Server-side processing done:', sound);
+    liveEvents.publish('sound.created', { sounds: [sound] });
+    res.status(201).json(sound);
+  } catch (error) {
+    console.error('❌ Error processing file on server:', error);
+    
+    // Usuń gotowy plik, jeśli rekord nie powstał (częściowe pliki sprząta processClip)
+    if (outputBase) {
+      [...new Set(Object.values(OUTPUT_FORMATS).map(info => outputBase + info.extension))]
+        .filter(candidate => fs.existsSync(candidate))
+        .forEach(candidate => fs.unlinkSync(candidate));
+    }
+    
+    if (error instanceof FFmpegUnavailableError) {
+      return res.status(503).json({ error: 'Server-side processing is not available' });
+    }
+    
+    res.status(500).json({ error: 'Failed to process file', details: error.message });
+  } finally {
+    fs.unlink(req.file.path, () => {});
+  }
+});
+
 // Serve audio files
-app.get('/api/sounds/:filename', (req, res) => {
+app.get('/api/sounds/:filename', requireRole('viewer'), (req, res) => {
   const filename = req.params.filename;
-  const filePath = path.join(soundsDir, filename);
+  const filePath = resolveSoundPath(soundsDir, filename);
   
   console.log('🎵 GET /api/sounds/:filename - Request for file:', filename);
   console.log('📁 Full file path:', filePath);
   
-  if (!fs.existsSync(filePath)) {
-    console.error('❌ File not found:', filePath);
+  // Tylko pliki audio z soundsDir - bez ukrytych (metadane), podkatalogów i "../"
+  if (!filePath || !fs.statSync(filePath, { throwIfNoEntry: false })?.isFile()) {
+    console.error('❌ File not found:', filename);
     return res.status(404).json({ error: 'File not found', filename });
   }
   
   // Set appropriate headers for audio streaming
   const ext = path.extname(filename).toLowerCase();
-  let contentType;
-  
-  switch (ext) {
-    case '.wav':
-      contentType = 'audio/wav';
-      break;
-    case '.mp3':
-      contentType = 'audio/mpeg';
-      break;
-    case '.m4a':
-      contentType = 'audio/mp4';
-      break;
-    case '.ogg':
-      contentType = 'audio/ogg';
-      break;
-    default:
-      contentType = 'audio/wav'; // Domyślny
-  }
+  const contentType = getContentType(filename);
   
   console.log('🎵 File extension:', ext);
   console.log('🎵 Content-Type:', contentType);
   
+  const stats = fs.statSync(filePath);
+  const etag = createETag(stats);
+  
   res.setHeader('Content-Type', contentType);
   res.setHeader('Accept-Ranges', 'bytes');
   res.setHeader('Cache-Control', 'public, max-age=3600'); // Cache na 1 godzinę
+  res.setHeader('ETag', etag);
+  res.setHeader('Last-Modified', stats.mtime.toUTCString());
+  
+  // Conditional GET - browser already has this version
+  if (isNotModified(req, etag, stats.mtime)) {
+    console.log('♻️ Not modified:', filename);
+    return res.status(304).end();
+  }
+  
+  // Partial content for seeking (Safari/iOS always asks for ranges)
+  let start = 0;
+  let end = stats.size - 1;
+  const range = isRangeStillValid(req, etag, stats.mtime) ? parseRange(req.headers.range, stats.size) : null;
+  
+  if (range === 'unsatisfiable') {
+    console.warn('⚠️ Unsatisfiable range:', req.headers.range, 'size:', stats.size);
+    res.setHeader('Content-Range', `bytes */${stats.size}`);
+    return res.status(416).end();
+  }
+  
+  if (range) {
+    start = range.start;
+    end = range.end;
+    res.status(206);
+    res.setHeader('Content-Range', `bytes ${start}-${end}/${stats.size}`);
+    console.log(`🎯 Range request: bytes ${start}-${end}/${stats.size}`);
+  }
+  
+  res.setHeader('Content-Length', end - start + 1);
+  
+  if (req.method === 'HEAD' || stats.size === 0) {
+    return res.end();
+  }
   
-  // Stream the file
-  const stream = fs.createReadStream(filePath);
+  // Stream the file (or the requested part of it)
+  const stream = fs.createReadStream(filePath, { start, end });
   
   stream.on('error', (error) => {
     console.error('❌ Error streaming file:', error);
     if (!res.headersSent) {
       res.status(500).json({ error: 'Error streaming file' });
+    } else {
+      res.destroy(error);
     }
   });
   
@@ -238,26 +866,198 @@ app.get('/api/sounds/:filename', (req, res) => {
     console.log('✅ File stream opened successfully');
   });
   
+  // Stop reading when the client goes away (seeking aborts the previous request)
+  res.on('close', () => stream.destroy());
+  
   stream.pipe(res);
   
   console.log('✅ File streaming started');
 });
 
-// Delete audio file
-app.delete('/api/sounds/:filename', (req, res) => {
-  const filename = req.params.filename;
-  const filePath = path.join(soundsDir, filename);
+// Remove a file from soundsDir - an already missing file counts as removed
+function removeSoundFile(filename) {
+  const filePath = resolveSoundPath(soundsDir, filename);
+  if (!filePath) return;
   
   try {
-    if (fs.existsSync(filePath)) {
-      fs.unlinkSync(filePath);
-      res.json({ message: 'File deleted successfully' });
-    } else {
-      res.status(404).json({ error: 'File not found' });
+    fs.unlinkSync(filePath);
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error;
+  }
+}
+
+// Readable reason for a failed delete
+function describeDeleteError(error) {
+  if (error.code === 'EACCES' || error.code === 'EPERM') return 'Permission denied';
+  if (error.code === 'EBUSY') return 'File is in use';
+  return error.message || 'Failed to delete sound';
+}
+
+// Move a sound to the trash: the file first, so a failure leaves the record to retry with
+function trashSound(record) {
+  const trashed = trashStore.trash(record, boardStore.placesOf(record.id));
+  soundStore.remove(record.id);
+  boardStore.removeSound(record.id);
+  return trashed;
+}
+
+// Delete many sounds (into the trash) - { ids: [...] }, or without ids the whole
+// library ("Clear All"). Every sound is tried; the ones that fail are listed with a reason.
+app.delete('/api/sounds', requireRole('editor'), (req, res) => {
+  try {
+    const ids = req.body?.ids;
+    
+    if (ids !== undefined && (!Array.isArray(ids) || !ids.every(id => typeof id === 'string'))) {
+      return res.status(400).json({ error: 'ids must be an array of sound ids' });
     }
+    
+    if (ids === undefined && !hasRole(req.user.role, 'admin')) {
+      return res.status(403).json({ error: 'Clearing all sounds requires the admin role' });
+    }
+    
+    const deleted = [];
+    const failed = [];
+    const targets = ids === undefined ? soundStore.list() : ids.map(id => soundStore.get(id) || { id, title: id, missing: true });
+    
+    targets.forEach(record => {
+      if (record.missing) {
+        failed.push({ id: record.id, title: record.title, reason: 'Sound not found' });
+        return;
+      }
+      
+      try {
+        trashSound(record);
+        deleted.push(record.id);
+      } catch (error) {
+        console.error(`❌ Error deleting ${record.filename}:`, error);
+        failed.push({ id: record.id, title: record.title, reason: describeDeleteError(error) });
+      }
+    });
+    
+    console.log(`🗑️ Bulk delete: ${deleted.length} deleted, ${failed.length} failed`);
+    if (deleted.length > 0) {
+      liveEvents.publish('sound.deleted', { ids: deleted });
+      publishBoards();
+    }
+    res.json({ deleted, failed });
+  } catch (error) {
+    console.error('❌ Error deleting sounds:', error);
+    res.status(500).json({ error: 'Failed to delete sounds' });
+  }
+});
+
+// Delete a sound (by record id or, for older clients, by filename) - into the trash.
+// A stray file without a record gets one first, so it can be restored like any sound.
+app.delete('/api/sounds/:id', requireRole('editor'), (req, res) => {
+  try {
+    let record = soundStore.get(req.params.id) || soundStore.findByFilename(req.params.id);
+    
+    if (!record) {
+      const filePath = resolveSoundPath(soundsDir, req.params.id);
+      if (!filePath || !fs.existsSync(filePath)) {
+        return res.status(404).json({ error: 'Sound not found' });
+      }
+      record = soundStore.create({ filename: req.params.id });
+    }
+    
+    const { filename } = record;
+    const trashed = trashSound(record);
+    liveEvents.publish('sound.deleted', { ids: [record.id] });
+    publishBoards();
+    res.json({ message: 'Sound moved to trash', id: record.id, filename, expiresAt: trashed.expiresAt });
   } catch (error) {
-    console.error('Error deleting file:', error);
-    res.status(500).json({ error: 'Failed to delete file' });
+    console.error('Error deleting sound:', error);
+    res.status(500).json({ error: describeDeleteError(error) });
+  }
+});
+
+// Deleted sounds, newest first
+app.get('/api/trash', requireRole('editor'), (req, res) => {
+  try {
+    res.json({ retentionDays: trashStore.retentionDays, sounds: trashStore.list() });
+  } catch (error) {
+    console.error('❌ Error reading trash:', error);
+    res.status(500).json({ error: 'Failed to read trash' });
+  }
+});
+
+// Restore sounds from the trash - { ids: [...] }, also used by "Undo" after a delete
+app.post('/api/trash/restore', requireRole('editor'), (req, res) => {
+  try {
+    const { ids } = req.body;
+    
+    if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => typeof id === 'string')) {
+      return res.status(400).json({ error: 'ids must be a non-empty array of sound ids' });
+    }
+    
+    const restored = [];
+    const failed = [];
+    
+    ids.forEach(id => {
+      const title = trashStore.get(id)?.record.title ?? id;
+      try {
+        const entry = trashStore.restore(id);
+        if (!entry) {
+          failed.push({ id, title, reason: 'Not in the trash' });
+          return;
+        }
+        const record = soundStore.restore(entry.record);
+        boardStore.restoreSound(record.id, entry.boards);
+        restored.push(record);
+      } catch (error) {
+        console.error(`❌ Error restoring ${id}:`, error);
+        failed.push({ id, title, reason: error.message || 'Failed to restore sound' });
+      }
+    });
+    
+    console.log(`♻️ Restored ${restored.length} sounds from trash, ${failed.length} failed`);
+    if (restored.length > 0) {
+      liveEvents.publish('sound.created', { sounds: restored });
+      publishBoards();
+    }
+    res.json({ restored, failed });
+  } catch (error) {
+    console.error('❌ Error restoring sounds:', error);
+    res.status(500).json({ error: 'Failed to restore sounds' });
+  }
+});
+
+// Delete a trashed sound for good
+app.delete('/api/trash/:id', requireRole('editor'), (req, res) => {
+  try {
+    const purged = trashStore.purge(req.params.id);
+    if (!purged) {
+      return res.status(404).json({ error: 'Sound not in trash', id: req.params.id });
+    }
+    console.log('🔥 Purged from trash:', purged.filename);
+    res.json({ message: 'Sound deleted permanently', id: purged.id });
+  } catch (error) {
+    console.error('❌ Error purging sound:', error);
+    res.status(500).json({ error: describeDeleteError(error) });
+  }
+});
+
+// Empty the trash
+app.delete('/api/trash', requireRole('admin'), (req, res) => {
+  try {
+    const failed = [];
+    let purged = 0;
+    
+    trashStore.list().forEach(sound => {
+      try {
+        trashStore.purge(sound.id);
+        purged++;
+      } catch (error) {
+        console.error(`❌ Error purging ${sound.filename}:`, error);
+        failed.push({ id: sound.id, title: sound.title, reason: describeDeleteError(error) });
+      }
+    });
+    
+    console.log(`🔥 Emptied trash: ${purged} purged, ${failed.length} failed`);
+    res.json({ purged, failed });
+  } catch (error) {
+    console.error('❌ Error emptying trash:', error);
+    res.status(500).json({ error: 'Failed to empty trash' });
   }
 });
 
@@ -269,6 +1069,7 @@ app.use((error, req, res, next) => {
     if (error.code === 'LIMIT_FILE_SIZE') {
       return res.status(400).json({ error: 'File too large. Maximum size is 100MB.' });
     }
+    return res.status(400).json({ error: error.message });
   }
   
   // Handle payload too large errors
@@ -284,6 +1085,11 @@ app.use((error, req, res, next) => {
     });
   }
   
+  // Client errors raised by upload filters and body parsing
+  if (error.status >= 400 && error.status < 500) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  
   res.status(500).json({ error: 'Internal server error' });
 });
 
@@ -292,9 +1098,24 @@ app.get('*', (req, res) => {
   res.sendFile(path.join(__dirname, '../public/index.html'));
 });
 
-// Start server
-app.listen(PORT, () => {
-  console.log(`🚀 Server running on port ${PORT}`);
-  console.log(`📁 Sounds directory: ${soundsDir}`);
-  console.log(`🌐 Health check: http://localhost:${PORT}/api/health`);
-});
+// Start server (not when imported, e.g. by the supertest suite)
+if (process.argv[1] && path.resolve(process.argv[1]) === __filename) {
+  app.listen(PORT, () => {
+    console.log(`🚀 Server running on port ${PORT}`);
+    console.log(`📁 Sounds directory: ${soundsDir}`);
+    console.log(`🗑️ Trash retention: ${trashStore.retentionDays} days`);
+    console.log(`🌐 Health check: http://localhost:${PORT}/api/health`);
+  });
+  
+  // Purge expired trash now and then periodically
+  const sweepTrash = () => {
+    const purged = trashStore.purgeExpired();
+    if (purged.length > 0) {
+      console.log(`🔥 Purged ${purged.length} expired sounds from trash`);
+    }
+  };
+  sweepTrash();
+  setInterval(sweepTrash, TRASH_SWEEP_INTERVAL).unref();
+}
+
+export default app;
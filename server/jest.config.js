@@ -0,0 +1,8 @@
+// Server tests run as native ES modules:
+// node --experimental-vm-modules node_modules/jest/bin/jest.js --config server/jest.config.js
+export default {
+  rootDir: '.',
+  testEnvironment: 'node',
+  transform: {},
+  testMatch: ['<rootDir>/__tests__/**/*.test.js'],
+};
@@ -0,0 +1,96 @@
+// Events kept for clients that reconnect (EventSource sends Last-Event-ID)
+const REPLAY_LIMIT = 200;
+
+// Comment line now and then so proxies don't close an idle stream
+const HEARTBEAT_INTERVAL = 25 * 1000;
+
+// Frequent small changes (plays) are sent at most this often
+const COALESCE_INTERVAL = 1000;
+
+// Server-Sent Events to every open browser: what changed in the library and boards.
+// Event types: sound.created, sound.updated, sound.played ({ sounds }),
+// sound.deleted ({ ids }), boards.changed ({ boards }) and resync (reload everything),
+// plus ready for a client that has just connected.
+export function createLiveEvents({ replayLimit = REPLAY_LIMIT, heartbeatInterval = HEARTBEAT_INTERVAL } = {}) {
+  const clients = new Set();
+  const recent = [];
+  // Ids start at the boot time, so a client that saw an earlier server process
+  // never mistakes the new ids for ones it already has
+  let lastId = Date.now();
+
+  const format = (event) => `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`;
+
+  // Stream for one client (GET /api/events). A reconnecting client gets the events it
+  // missed, or "resync" when they are no longer kept.
+  const subscribe = (req, res) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no' // nginx: don't buffer the stream
+    });
+    res.write('retry: 3000\n\n');
+
+    // "ready" tells a new client where the stream is, so its next reconnect can catch up
+    const lastEventId = Number(req.headers['last-event-id'] || NaN);
+    if (!Number.isInteger(lastEventId)) {
+      res.write(format({ id: lastId, type: 'ready', data: {} }));
+    } else if (lastEventId !== lastId) {
+      const missed = recent.filter(event => event.id > lastEventId);
+      if (lastEventId < lastId && missed.length > 0 && missed[0].id === lastEventId + 1) {
+        missed.forEach(event => res.write(format(event)));
+      } else {
+        res.write(format({ id: lastId, type: 'resync', data: {} }));
+      }
+    }
+
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), heartbeatInterval);
+    heartbeat.unref?.();
+
+    const client = { res, heartbeat };
+    clients.add(client);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      clients.delete(client);
+    });
+  };
+
+  const publish = (type, data = {}) => {
+    const event = { id: ++lastId, type, data };
+    recent.push(event);
+    if (recent.length > replayLimit) recent.shift();
+
+    const message = format(event);
+    clients.forEach(client => client.res.write(message));
+    return event;
+  };
+
+  return {
+    subscribe,
+    publish,
+    get clientCount() {
+      return clients.size;
+    }
+  };
+}
+
+// Collect records by id and hand the latest copy of each to flush() at most once per
+// interval - one event for a burst of plays instead of one per click
+export function createCoalescer(flush, { interval = COALESCE_INTERVAL } = {}) {
+  const queued = new Map();
+  let timer = null;
+
+  return (record) => {
+    queued.set(record.id, record);
+    if (timer) return;
+
+    timer = setTimeout(() => {
+      timer = null;
+      const records = [...queued.values()];
+      queued.clear();
+      flush(records);
+    }, interval);
+    timer.unref?.();
+  };
+}
@@ -0,0 +1,457 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4, validate as isUuid } from 'uuid';
+
+// Formaty audio obsługiwane przez grid
+export const AUDIO_EXTENSIONS = ['.mp3', '.wav', '.m4a', '.ogg', '.opus', '.webm', '.aac'];
+
+// Plik z metadanymi - kropka na początku, więc express.static go nie serwuje
+const METADATA_FILENAME = '.metadata.json';
+
+// Fields the client is allowed to change through PATCH
+const EDITABLE_FIELDS = ['title', 'duration', 'tags', 'category', 'color', 'description', 'gain', 'playbackRate', 'muted', 'hotkey', 'position', 'favorite'];
+
+const MAX_TAGS = 20;
+const MAX_LABEL_LENGTH = 40; // One tag or category
+const MAX_DESCRIPTION_LENGTH = 500;
+
+// Highest slot index of the manual layout
+export const MAX_POSITION = 999;
+
+// Slot index in a manual layout (null clears it)
+export function isValidPosition(value) {
+  return value === null || (Number.isInteger(value) && value >= 0 && value <= MAX_POSITION);
+}
+
+// "Ctrl+Alt+Shift+Meta+Key" in this order, key as in src/utils/hotkeys.ts
+const HOTKEY_PATTERN = /^(?:Ctrl\+)?(?:Alt\+)?(?:Shift\+)?(?:Meta\+)?[A-Za-z0-9]{1,16}$/;
+
+// Per-sound playback limits - keep in sync with src/utils/playbackEngine.ts
+const PLAYBACK_RANGES = {
+  gain: { min: -24, max: 12, label: 'Gain (dB)' },
+  playbackRate: { min: 0.25, max: 4, label: 'Playback rate' }
+};
+
+// Check if a filename has a supported audio extension
+export function isAudioFile(filename) {
+  return AUDIO_EXTENSIONS.includes(path.extname(filename).toLowerCase());
+}
+
+// Map file extension to Content-Type
+export function getContentType(filename) {
+  switch (path.extname(filename).toLowerCase()) {
+    case '.wav':
+      return 'audio/wav';
+    case '.mp3':
+      return 'audio/mpeg';
+    case '.m4a':
+      return 'audio/mp4';
+    case '.ogg':
+    case '.opus':
+      return 'audio/ogg';
+    case '.webm':
+      return 'audio/webm';
+    case '.aac':
+      return 'audio/aac';
+    default:
+      return 'audio/wav'; // Domyślny
+  }
+}
+
+// Validate and normalize editable fields from a request body
+export function validateSoundFields(body) {
+  const { title, duration, tags, color, description } = body;
+  const fields = {};
+
+  if (title !== undefined) {
+    if (typeof title !== 'string' || !title.trim()) {
+      return { error: 'Title must be a non-empty string' };
+    }
+    fields.title = title.trim();
+  }
+
+  if (duration !== undefined) {
+    if (typeof duration !== 'number' || !Number.isFinite(duration) || duration < 0) {
+      return { error: 'Duration must be a non-negative number' };
+    }
+    fields.duration = duration;
+  }
+
+  if (tags !== undefined) {
+    if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+      return { error: 'Tags must be an array of strings' };
+    }
+    const normalized = [...new Set(tags.map(tag => tag.trim()).filter(Boolean))];
+    if (normalized.length > MAX_TAGS) {
+      return { error: `A sound can have at most ${MAX_TAGS} tags` };
+    }
+    if (normalized.some(tag => tag.length > MAX_LABEL_LENGTH)) {
+      return { error: `Tags can be at most ${MAX_LABEL_LENGTH} characters` };
+    }
+    fields.tags = normalized;
+  }
+
+  if (body.category !== undefined) {
+    if (body.category !== null && (typeof body.category !== 'string' || body.category.trim().length > MAX_LABEL_LENGTH)) {
+      return { error: `Category must be a string of at most ${MAX_LABEL_LENGTH} characters, or null` };
+    }
+    fields.category = body.category?.trim() || null;
+  }
+
+  if (color !== undefined) {
+    if (color !== null && (typeof color !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(color))) {
+      return { error: 'Color must be a hex value like #3b82f6' };
+    }
+    fields.color = color;
+  }
+
+  if (description !== undefined) {
+    if (typeof description !== 'string' || description.length > MAX_DESCRIPTION_LENGTH) {
+      return { error: `Description must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters` };
+    }
+    fields.description = description.trim();
+  }
+
+  for (const [field, { min, max, label }] of Object.entries(PLAYBACK_RANGES)) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      return { error: `${label} must be a number between ${min} and ${max}` };
+    }
+    fields[field] = value;
+  }
+
+  if (body.muted !== undefined) {
+    if (typeof body.muted !== 'boolean') {
+      return { error: 'Muted must be true or false' };
+    }
+    fields.muted = body.muted;
+  }
+
+  if (body.position !== undefined) {
+    if (!isValidPosition(body.position)) {
+      return { error: `Position must be a whole number between 0 and ${MAX_POSITION}, or null` };
+    }
+    fields.position = body.position;
+  }
+
+  if (body.favorite !== undefined) {
+    if (typeof body.favorite !== 'boolean') {
+      return { error: 'Favorite must be true or false' };
+    }
+    fields.favorite = body.favorite;
+  }
+
+  if (body.hotkey !== undefined) {
+    if (body.hotkey !== null && (typeof body.hotkey !== 'string' || !HOTKEY_PATTERN.test(body.hotkey))) {
+      return { error: 'Hotkey must look like "Ctrl+Shift+A" or be null' };
+    }
+    fields.hotkey = body.hotkey;
+  }
+
+  return { fields };
+}
+
+// Read duration from a PCM WAV header (other formats return 0)
+function probeWavDuration(filePath) {
+  try {
+    const fd = fs.openSync(filePath, 'r');
+    const header = Buffer.alloc(44);
+    fs.readSync(fd, header, 0, 44, 0);
+    fs.closeSync(fd);
+
+    if (header.toString('ascii', 0, 4) !== 'RIFF' || header.toString('ascii', 8, 12) !== 'WAVE') {
+      return 0;
+    }
+
+    const byteRate = header.readUInt32LE(28);
+    const dataSize = header.readUInt32LE(40);
+    return byteRate > 0 ? dataSize / byteRate : 0;
+  } catch (error) {
+    console.error('⚠️ Could not probe WAV duration:', filePath, error.message);
+    return 0;
+  }
+}
+
+// Missing, null, [] and '' all mean "not set" - the client sends [] for no tags
+// and '' for no description where a fresh record has nothing at all
+const isEmptyValue = (value) => value === undefined || value === null || value === ''
+  || (Array.isArray(value) && value.length === 0);
+
+// Same value as far as an edit is concerned (tags compare by content)
+function isSameValue(a, b) {
+  if (isEmptyValue(a) || isEmptyValue(b)) return isEmptyValue(a) && isEmptyValue(b);
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Keep only fields the client may set
+function pickEditable(fields) {
+  const picked = {};
+  EDITABLE_FIELDS.forEach(field => {
+    if (fields[field] !== undefined) picked[field] = fields[field];
+  });
+  return picked;
+}
+
+// Create a persistent store of Sound records kept next to the audio files.
+// onMissingFiles gets the records dropped because their file is gone.
+export function createSoundStore(soundsDir, { onMissingFiles = () => {} } = {}) {
+  const metadataPath = path.join(soundsDir, METADATA_FILENAME);
+  let records = null;
+
+  const load = () => {
+    if (records) return records;
+
+    try {
+      records = fs.existsSync(metadataPath)
+        ? JSON.parse(fs.readFileSync(metadataPath, 'utf8'))
+        : [];
+    } catch (error) {
+      console.error('❌ Failed to read sound metadata, starting empty:', error);
+      records = [];
+    }
+
+    return records;
+  };
+
+  // Write to a temp file first so a crash never leaves half-written JSON
+  const save = () => {
+    const tmpPath = `${metadataPath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(records, null, 2));
+    fs.renameSync(tmpPath, metadataPath);
+  };
+
+  const buildRecord = (filename, fields = {}) => {
+    const filePath = path.join(soundsDir, filename);
+    const stats = fs.statSync(filePath);
+    const now = new Date().toISOString();
+
+    return {
+      id: uuidv4(),
+      ...pickEditable(fields),
+      title: fields.title || filename.replace(/\.[^/.]+$/, ''),
+      filename,
+      duration: typeof fields.duration === 'number' && fields.duration > 0
+        ? fields.duration
+        : probeWavDuration(filePath),
+      fileType: fields.fileType || getContentType(filename),
+      fileSize: stats.size,
+      audioUrl: `/api/sounds/${filename}`,
+      revision: 1,
+      createdAt: now,
+      updatedAt: now
+    };
+  };
+
+  // Keep records in line with the directory: adopt new files, drop missing ones
+  const reconcile = () => {
+    load();
+
+    const files = fs.readdirSync(soundsDir).filter(file => !file.startsWith('.') && isAudioFile(file));
+    const known = new Set(records.map(record => record.filename));
+    let changed = false;
+
+    const missing = records.filter(record => !files.includes(record.filename));
+    if (missing.length > 0) {
+      console.log(`🧹 Dropping ${missing.length} records without files`);
+      records = records.filter(record => !missing.includes(record));
+      changed = true;
+    }
+
+    files.forEach(file => {
+      if (!known.has(file)) {
+        console.log('🆕 Adopting untracked sound file:', file);
+        records.push(buildRecord(file));
+        changed = true;
+      }
+    });
+
+    if (changed) save();
+    if (missing.length > 0) onMissingFiles(missing);
+    return records;
+  };
+
+  return {
+    list() {
+      return [...reconcile()].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+
+    get(id) {
+      return load().find(record => record.id === id);
+    },
+
+    // Another sound bound to the same hotkey, if any
+    findHotkeyConflict(hotkey, exceptId) {
+      if (!hotkey) return undefined;
+      return load().find(record => record.hotkey === hotkey && record.id !== exceptId);
+    },
+
+    findByFilename(filename) {
+      return load().find(record => record.filename === filename);
+    },
+
+    hasFile(filename) {
+      return fs.existsSync(path.join(soundsDir, filename));
+    },
+
+    // Create a record for a file already in soundsDir (upsert by filename)
+    create(fields) {
+      load();
+
+      const existing = records.find(record => record.filename === fields.filename);
+      if (existing) {
+        return this.update(existing.id, fields);
+      }
+
+      const record = buildRecord(fields.filename, fields);
+      records.push(record);
+      save();
+      return record;
+    },
+
+    // Add a record for a file unpacked from an archive, keeping its id and createdAt when free.
+    // Only UUIDs are kept - ids end up in URLs and trash filenames.
+    addImported(filename, source) {
+      load();
+
+      const record = buildRecord(filename, source);
+      if (typeof source.id === 'string' && isUuid(source.id) && !records.some(r => r.id === source.id)) {
+        record.id = source.id;
+      }
+      if (typeof source.createdAt === 'string' && !Number.isNaN(Date.parse(source.createdAt))) {
+        record.createdAt = source.createdAt;
+      }
+
+      records.push(record);
+      save();
+      return record;
+    },
+
+    // Fields someone else changed since the client read them: `expected` holds the values
+    // the client saw. Changing a field to the value it already has is not a conflict.
+    findEditConflicts(id, updates, expected = {}) {
+      const record = this.get(id);
+      if (!record) return [];
+
+      return Object.keys(pickEditable(updates)).filter(field => Object.hasOwn(expected, field)
+        && !isSameValue(record[field], expected[field])
+        && !isSameValue(record[field], updates[field]));
+    },
+
+    // Every edit bumps the revision, so clients can tell a stale copy from a newer one
+    update(id, updates) {
+      load();
+
+      const index = records.findIndex(record => record.id === id);
+      if (index === -1) return null;
+
+      const current = records[index];
+      records[index] = { ...current, ...pickEditable(updates), revision: (current.revision || 0) + 1, updatedAt: new Date().toISOString() };
+      save();
+      return records[index];
+    },
+
+    // Count a play - usage, not an edit, so updatedAt stays
+    recordPlay(id) {
+      load();
+
+      const record = records.find(r => r.id === id);
+      if (!record) return null;
+
+      record.playCount = (record.playCount || 0) + 1;
+      record.lastPlayedAt = new Date().toISOString();
+      save();
+      return record;
+    },
+
+    // Set manual layout slots of many sounds at once ({ id: slot }), unknown ids are ignored
+    updatePositions(positions) {
+      load();
+
+      const now = new Date().toISOString();
+      records = records.map(record => Object.hasOwn(positions, record.id)
+        ? { ...record, position: positions[record.id], revision: (record.revision || 0) + 1, updatedAt: now }
+        : record);
+      save();
+      return records.filter(record => Object.hasOwn(positions, record.id));
+    },
+
+    // Apply imported metadata to existing records, matched by id first and then filename.
+    // In 'replace' mode records missing from the import are dropped and returned as removed.
+    importRecords(entries, mode) {
+      reconcile();
+
+      const matched = new Set();
+      const imported = [];
+      const skipped = [];
+      const now = new Date().toISOString();
+
+      entries.forEach(entry => {
+        const index = records.findIndex(record => record.id === entry.id && !matched.has(record.id));
+        const target = index !== -1
+          ? index
+          : records.findIndex(record => record.filename === entry.filename && !matched.has(record.id));
+
+        if (target === -1) {
+          skipped.push({ title: entry.fields.title || entry.filename, reason: 'Audio file not found on server' });
+          return;
+        }
+
+        records[target] = { ...records[target], ...pickEditable(entry.fields), revision: (records[target].revision || 0) + 1, updatedAt: now };
+        matched.add(records[target].id);
+        imported.push(records[target]);
+      });
+
+      let removed = [];
+      if (mode === 'replace' && imported.length > 0) {
+        removed = records.filter(record => !matched.has(record.id));
+        records = records.filter(record => matched.has(record.id));
+      }
+
+      // A hotkey already taken by a sound that stays (or by an earlier entry) is dropped
+      const warnings = [];
+      const taken = new Set(records.filter(record => !matched.has(record.id) && record.hotkey).map(record => record.hotkey));
+      imported.forEach(record => {
+        if (!record.hotkey) return;
+        if (taken.has(record.hotkey)) {
+          warnings.push({ title: record.title, reason: `Hotkey ${record.hotkey} is already used - removed` });
+          record.hotkey = null;
+          return;
+        }
+        taken.add(record.hotkey);
+      });
+
+      save();
+      return { imported, skipped, removed, warnings };
+    },
+
+    // Put back a record from the trash - its id unless taken, its hotkey unless taken
+    restore(record) {
+      load();
+
+      const restored = { ...record, revision: (record.revision || 0) + 1, updatedAt: new Date().toISOString() };
+      if (records.some(r => r.id === restored.id)) {
+        restored.id = uuidv4();
+      }
+      if (restored.hotkey && this.findHotkeyConflict(restored.hotkey, restored.id)) {
+        restored.hotkey = null;
+      }
+
+      records.push(restored);
+      save();
+      return restored;
+    },
+
+    // Remove a record; the caller decides what happens to the file
+    remove(id) {
+      load();
+
+      const record = records.find(r => r.id === id);
+      if (!record) return null;
+
+      records = records.filter(r => r.id !== id);
+      save();
+      return record;
+    }
+  };
+}
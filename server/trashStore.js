@@ -0,0 +1,170 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { uniqueFilename } from './archive.js';
+import { isSafeFilename } from './fileSafety.js';
+
+// Deleted files wait here - a dot directory, so neither express.static nor
+// reconcile() in soundStore ever sees them
+const TRASH_DIRNAME = '.trash';
+const TRASH_INDEX_FILENAME = '.trash.json';
+
+export const DEFAULT_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days to keep deleted sounds (TRASH_RETENTION_DAYS, 0 = purge on the next sweep)
+export function parseRetentionDays(value) {
+  if (value === undefined || value === '') return DEFAULT_RETENTION_DAYS;
+  const days = Number(value);
+  if (!Number.isFinite(days) || days < 0) {
+    throw new Error(`Invalid TRASH_RETENTION_DAYS "${value}" - expected a number of days >= 0`);
+  }
+  return days;
+}
+
+// Soft-deleted sounds: the file moves to soundsDir/.trash, the record (and the
+// boards it was on) is kept in .trash.json so the sound can be restored as it was
+export function createTrashStore(soundsDir, { retentionDays = DEFAULT_RETENTION_DAYS } = {}) {
+  const trashDir = path.join(soundsDir, TRASH_DIRNAME);
+  const indexPath = path.join(soundsDir, TRASH_INDEX_FILENAME);
+  let entries = null;
+
+  const load = () => {
+    if (entries) return entries;
+
+    try {
+      entries = fs.existsSync(indexPath)
+        ? JSON.parse(fs.readFileSync(indexPath, 'utf8'))
+        : [];
+    } catch (error) {
+      console.error('❌ Failed to read trash index, starting empty:', error);
+      entries = [];
+    }
+
+    return entries;
+  };
+
+  // Write to a temp file first so a crash never leaves half-written JSON
+  const save = () => {
+    const tmpPath = `${indexPath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(entries, null, 2));
+    fs.renameSync(tmpPath, indexPath);
+  };
+
+  const expiresAt = (entry) => new Date(Date.parse(entry.deletedAt) + retentionDays * DAY_MS).toISOString();
+
+  // Public shape: the sound record plus when it was deleted and when it goes for good
+  const toTrashed = (entry) => ({ ...entry.record, deletedAt: entry.deletedAt, expiresAt: expiresAt(entry) });
+
+  // Path of an entry's file in trashDir, null for a name that could point anywhere
+  // else (the index is a plain JSON file next to the sounds)
+  const trashedPath = (entry) => {
+    if (!isSafeFilename(entry.trashFilename)) return null;
+    const filePath = path.resolve(trashDir, entry.trashFilename);
+    return path.dirname(filePath) === path.resolve(trashDir) ? filePath : null;
+  };
+
+  const removeFile = (filePath) => {
+    if (!filePath) return;
+    try {
+      fs.unlinkSync(filePath);
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  };
+
+  return {
+    retentionDays,
+
+    list() {
+      return load().map(toTrashed).sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+    },
+
+    get(id) {
+      return load().find(entry => entry.record.id === id);
+    },
+
+    // Move a sound's file into the trash. `boards` are the { boardId, position }
+    // places it had, put back on restore. Throws (record untouched) if the move fails.
+    trash(record, boards = []) {
+      load();
+      fs.mkdirSync(trashDir, { recursive: true });
+
+      // A sound deleted again replaces its older trash entry
+      const previous = entries.find(entry => entry.record.id === record.id);
+      if (previous) {
+        removeFile(trashedPath(previous));
+        entries = entries.filter(entry => entry !== previous);
+      }
+
+      // Fresh name - record ids can come from imports, so they never become paths
+      const trashFilename = `${uuidv4()}${path.extname(record.filename).toLowerCase()}`;
+      const source = path.join(soundsDir, record.filename);
+      if (fs.existsSync(source)) {
+        fs.renameSync(source, path.join(trashDir, trashFilename));
+      }
+
+      const entry = { record, boards, trashFilename, deletedAt: new Date().toISOString() };
+      entries.push(entry);
+      save();
+      return toTrashed(entry);
+    },
+
+    // Move the file back into soundsDir (renamed if the name is taken meanwhile).
+    // Returns the entry with the record's final filename, or null when it is gone.
+    restore(id) {
+      load();
+
+      const entry = entries.find(candidate => candidate.record.id === id);
+      if (!entry) return null;
+
+      const filePath = trashedPath(entry);
+      if (!filePath || !fs.existsSync(filePath)) {
+        entries = entries.filter(candidate => candidate !== entry);
+        save();
+        throw new Error('Audio file is missing from the trash');
+      }
+
+      const filename = uniqueFilename(soundsDir, entry.record.filename);
+      fs.renameSync(filePath, path.join(soundsDir, filename));
+
+      entries = entries.filter(candidate => candidate !== entry);
+      save();
+
+      return {
+        ...entry,
+        record: { ...entry.record, filename, audioUrl: `/api/sounds/${filename}` }
+      };
+    },
+
+    // Delete a trashed sound for good
+    purge(id) {
+      load();
+
+      const entry = entries.find(candidate => candidate.record.id === id);
+      if (!entry) return null;
+
+      removeFile(trashedPath(entry));
+      entries = entries.filter(candidate => candidate !== entry);
+      save();
+      return toTrashed(entry);
+    },
+
+    // Purge everything past the retention period - returns the purged sounds
+    purgeExpired(now = Date.now()) {
+      load();
+
+      const expired = entries.filter(entry => Date.parse(expiresAt(entry)) <= now);
+      expired.forEach(entry => {
+        try {
+          this.purge(entry.record.id);
+        } catch (error) {
+          console.error(`❌ Could not purge ${entry.record.filename} from trash:`, error);
+        }
+      });
+
+      return expired.map(toTrashed);
+    }
+  };
+}
@@ -1,16 +1,28 @@
-import React, { useState, useEffect } from 'react';
-import { Music, Settings, Download, Upload, Trash2, Menu } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Music, Settings, Download, Upload, Trash2, Menu, LogIn, LogOut } from 'lucide-react';
 import { useAudio } from './contexts/AudioContext';
+import { useAuth } from './contexts/AuthContext';
 import SoundGrid from './components/SoundGrid';
+import ImportDialog from './components/ImportDialog';
+import BoardSwitcher from './components/BoardSwitcher';
+import LoginScreen from './components/LoginScreen';
+import TrashView from './components/TrashView';
+import UndoToast from './components/UndoToast';
 import { cleanupFFmpeg } from './utils/audioUtils';
+import { parseSoundExport } from './utils/importUtils';
+import { ImportPreview } from './types';
 
 export default function App() {
-  const { sounds, clearSounds } = useAudio();
-  const [activeTab, setActiveTab] = useState<'grid' | 'settings'>('grid');
+  const { sounds, clearSounds, importArchive } = useAudio();
+  const { authEnabled, user, can, logout } = useAuth();
+  const [showLogin, setShowLogin] = useState(false);
+  const [activeTab, setActiveTab] = useState<'grid' | 'trash' | 'settings'>('grid');
   const [showMobileMenu, setShowMobileMenu] = useState(false);
   const [audioContext, setAudioContext] = useState<AudioContext | null>(null);
   const [isAudioInitialized, setIsAudioInitialized] = useState(false);
   const [audioError, setAudioError] = useState<string | null>(null);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   // Initialize Web Audio API on first user interaction
   useEffect(() => {
@@ -96,10 +108,20 @@ export default function App() {
     }
   };
 
-  // Handle clear all sounds
-  const handleClearAll = () => {
-    if (window.confirm(`Are you sure you want to delete all ${sounds.length} sounds? This action cannot be undone.`)) {
-      clearSounds();
+  // Handle clear all sounds - they go to the trash, the server reports every sound it could not move
+  const handleClearAll = async () => {
+    if (!window.confirm(`Move all ${sounds.length} sounds to the trash?`)) {
+      return;
+    }
+
+    try {
+      const result = await clearSounds();
+      if (result.failed.length > 0) {
+        const failed = result.failed.map(item => `\n• ${item.title}: ${item.reason}`).join('');
+        alert(`Deleted ${result.deleted.length} sounds.\nCould not delete ${result.failed.length}:${failed}`);
+      }
+    } catch (error) {
+      alert(`Clear all failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
@@ -116,6 +138,43 @@ export default function App() {
     linkElement.click();
   };
 
+  // Handle archive export (JSON + audio files)
+  const handleExportArchive = () => {
+    const linkElement = document.createElement('a');
+    linkElement.setAttribute('href', '/api/export');
+    linkElement.click();
+  };
+
+  // Handle import file selection - ZIP archives go straight to the server
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Pozwól wybrać ten sam plik ponownie
+    if (!file) return;
+
+    try {
+      if (file.name.toLowerCase().endsWith('.zip')) {
+        const result = await importArchive(file);
+        const skipped = result.skipped.map(item => `\n• ${item.title}: ${item.reason}`).join('');
+        const warnings = result.warnings.map(item => `\n• ${item.title}: ${item.reason}`).join('');
+        alert(`Imported ${result.imported} sounds from archive.${skipped ? `\nSkipped:${skipped}` : ''}${warnings ? `\nChanged:${warnings}` : ''}`);
+        return;
+      }
+
+      setImportPreview(parseSoundExport(await file.text(), sounds));
+    } catch (error) {
+      alert(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  // Handle logout
+  const handleLogout = async () => {
+    try {
+      await logout();
+    } catch (error) {
+      alert(`Logout failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
   // Cleanup FFmpeg on unmount
   React.useEffect(() => {
     return () => {
@@ -123,6 +182,36 @@ export default function App() {
     };
   }, []);
 
+  // The server allows nothing without logging in
+  if (!user) {
+    return <LoginScreen />;
+  }
+
+  // Signed-in user (or a sign-in button for anonymous visitors) - only when the server has accounts
+  const account = authEnabled && (
+    user.name ? (
+      <div className="flex items-center space-x-2 text-sm">
+        <span className="text-gray-700 font-medium truncate max-w-[8rem]">{user.name}</span>
+        <span className="px-2 py-0.5 bg-gray-100 text-gray-600 rounded-full text-xs">{user.role}</span>
+        <button
+          onClick={handleLogout}
+          className="p-1.5 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg"
+          title="Sign out"
+        >
+          <LogOut className="h-4 w-4" />
+        </button>
+      </div>
+    ) : (
+      <button
+        onClick={() => setShowLogin(true)}
+        className="flex items-center space-x-1 px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg"
+      >
+        <LogIn className="h-4 w-4" />
+        <span>Sign in</span>
+      </button>
+    )
+  );
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -151,6 +240,9 @@ export default function App() {
               <Menu className="h-5 w-5" />
             </button>
 
+            {/* Board Switcher */}
+            <BoardSwitcher className="hidden sm:flex ml-auto mr-4" />
+
             {/* Desktop Navigation Tabs */}
             <nav className="hidden sm:flex space-x-1">
               <button
@@ -163,6 +255,18 @@ export default function App() {
               >
                 Sound Grid
               </button>
+              {can('editor') && (
+                <button
+                  onClick={() => setActiveTab('trash')}
+                  className={`px-3 sm:px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    activeTab === 'trash'
+                      ? 'bg-primary-100 text-primary-700'
+                      : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  Trash
+                </button>
+              )}
               <button
                 onClick={() => setActiveTab('settings')}
                 className={`px-3 sm:px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
@@ -174,11 +278,15 @@ export default function App() {
                 Settings
               </button>
             </nav>
+
+            {account && <div className="hidden sm:block ml-4">{account}</div>}
           </div>
 
           {/* Mobile Navigation Menu */}
           {showMobileMenu && (
             <div className="sm:hidden border-t border-gray-200 py-4 space-y-2">
+              <BoardSwitcher className="px-4 pb-2" />
+              {account && <div className="px-4 pb-2">{account}</div>}
               <button
                 onClick={() => {
                   setActiveTab('grid');
@@ -192,6 +300,21 @@ export default function App() {
               >
                 Sound Grid
               </button>
+              {can('editor') && (
+                <button
+                  onClick={() => {
+                    setActiveTab('trash');
+                    setShowMobileMenu(false);
+                  }}
+                  className={`w-full px-4 py-2 rounded-lg text-left font-medium transition-colors ${
+                    activeTab === 'trash'
+                      ? 'bg-primary-100 text-primary-700'
+                      : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  Trash
+                </button>
+              )}
               <button
                 onClick={() => {
                   setActiveTab('settings');
@@ -262,6 +385,8 @@ export default function App() {
 
         {activeTab === 'grid' ? (
           <SoundGrid />
+        ) : activeTab === 'trash' ? (
+          <TrashView />
         ) : (
           <div className="space-y-4 sm:space-y-6">
             {/* Settings Header */}
@@ -281,55 +406,75 @@ export default function App() {
                   <h3 className="text-base sm:text-lg font-medium text-gray-900">Export Sounds</h3>
                 </div>
                 <p className="text-gray-600 mb-4 text-sm sm:text-base">
-                  Export all your sounds data as a JSON file for backup or transfer.
+                  Export all your sounds data as a JSON file for backup, or as a ZIP archive with the audio files to move the board to another machine.
                 </p>
-                <button
-                  onClick={handleExport}
-                  disabled={sounds.length === 0}
-                  className="btn-primary w-full disabled:opacity-50 disabled:cursor-not-allowed text-sm sm:text-base"
-                >
-                  Export {sounds.length} Sounds
-                </button>
+                <div className="space-y-2">
+                  <button
+                    onClick={handleExport}
+                    disabled={sounds.length === 0}
+                    className="btn-primary w-full disabled:opacity-50 disabled:cursor-not-allowed text-sm sm:text-base"
+                  >
+                    Export {sounds.length} Sounds
+                  </button>
+                  <button
+                    onClick={handleExportArchive}
+                    disabled={sounds.length === 0}
+                    className="btn-secondary w-full disabled:opacity-50 disabled:cursor-not-allowed text-sm sm:text-base"
+                  >
+                    Download Archive (ZIP)
+                  </button>
+                </div>
               </div>
 
               {/* Import Sounds */}
-              <div className="card">
-                <div className="flex items-center space-x-3 mb-4">
-                  <div className="p-2 bg-blue-100 rounded-lg">
-                    <Upload className="h-5 w-5 text-blue-600" />
+              {can('admin') && (
+                <div className="card">
+                  <div className="flex items-center space-x-3 mb-4">
+                    <div className="p-2 bg-blue-100 rounded-lg">
+                      <Upload className="h-5 w-5 text-blue-600" />
+                    </div>
+                    <h3 className="text-base sm:text-lg font-medium text-gray-900">Import Sounds</h3>
                   </div>
-                  <h3 className="text-base sm:text-lg font-medium text-gray-900">Import Sounds</h3>
+                  <p className="text-gray-600 mb-4 text-sm sm:text-base">
+                    Import sounds from a previously exported JSON file or ZIP archive.
+                  </p>
+                  <button
+                    onClick={() => importInputRef.current?.click()}
+                    className="btn-secondary w-full text-sm sm:text-base"
+                  >
+                    Import Sounds
+                  </button>
+                  <input
+                    ref={importInputRef}
+                    type="file"
+                    accept="application/json,.json,application/zip,.zip"
+                    onChange={handleImportFile}
+                    className="hidden"
+                  />
                 </div>
-                <p className="text-gray-600 mb-4 text-sm sm:text-base">
-                  Import sounds from a previously exported JSON file.
-                </p>
-                <button
-                  onClick={() => alert('Import functionality coming soon!')}
-                  className="btn-secondary w-full text-sm sm:text-base"
-                >
-                  Import Sounds
-                </button>
-              </div>
+              )}
 
               {/* Clear All Sounds */}
-              <div className="card">
-                <div className="flex items-center space-x-3 mb-4">
-                  <div className="p-2 bg-red-100 rounded-lg">
-                    <Trash2 className="h-5 w-5 text-red-600" />
+              {can('admin') && (
+                <div className="card">
+                  <div className="flex items-center space-x-3 mb-4">
+                    <div className="p-2 bg-red-100 rounded-lg">
+                      <Trash2 className="h-5 w-5 text-red-600" />
+                    </div>
+                    <h3 className="text-base sm:text-lg font-medium text-gray-900">Clear All Sounds</h3>
                   </div>
-                  <h3 className="text-base sm:text-lg font-medium text-gray-900">Clear All Sounds</h3>
+                  <p className="text-gray-600 mb-4 text-sm sm:text-base">
+                    Move all sounds to the trash and start fresh. They can be restored from Trash until they are purged.
+                  </p>
+                  <button
+                    onClick={handleClearAll}
+                    disabled={sounds.length === 0}
+                    className="btn-danger w-full disabled:opacity-50 disabled:cursor-not-allowed text-sm sm:text-base"
+                  >
+                    Clear All Sounds
+                  </button>
                 </div>
-                <p className="text-gray-600 mb-4 text-sm sm:text-base">
-                  Permanently delete all sounds and start fresh. This action cannot be undone.
-                </p>
-                <button
-                  onClick={handleClearAll}
-                  disabled={sounds.length === 0}
-                  className="btn-danger w-full disabled:opacity-50 disabled:cursor-not-allowed text-sm sm:text-base"
-                >
-                  Clear All Sounds
-                </button>
-              </div>
+              )}
 
               {/* Application Info */}
               <div className="card md:col-span-2 lg:col-span-3">
@@ -368,6 +513,17 @@ export default function App() {
           </div>
         )}
       </main>
+
+      {/* Undo for the last delete */}
+      <UndoToast />
+
+      {/* Login Dialog */}
+      {showLogin && <LoginScreen onClose={() => setShowLogin(false)} />}
+
+      {/* Import Dialog */}
+      {importPreview && (
+        <ImportDialog preview={importPreview} onClose={() => setImportPreview(null)} />
+      )}
     </div>
   );
 }
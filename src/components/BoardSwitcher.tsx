@@ -0,0 +1,88 @@
+import { LayoutGrid, Plus, Pencil, Trash2 } from 'lucide-react';
+import { useBoards } from '../contexts/BoardContext';
+import { useAuth } from '../contexts/AuthContext';
+
+interface BoardSwitcherProps {
+  className?: string;
+}
+
+// Board picker for the header. "All sounds" shows the whole library.
+export default function BoardSwitcher({ className = '' }: BoardSwitcherProps) {
+  const { boards, activeBoard, selectBoard, createBoard, renameBoard, deleteBoard } = useBoards();
+  const canEdit = useAuth().can('editor');
+
+  // Run a board action and report failures the same way as the rest of the header
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+    } catch (error) {
+      alert(`${failure}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleCreate = () => {
+    const name = window.prompt('Name of the new board:');
+    if (!name?.trim()) return;
+    run(async () => selectBoard((await createBoard(name.trim())).id), 'Could not create board');
+  };
+
+  const handleRename = () => {
+    if (!activeBoard) return;
+    const name = window.prompt('Rename board:', activeBoard.name);
+    if (!name?.trim() || name.trim() === activeBoard.name) return;
+    run(() => renameBoard(activeBoard.id, name.trim()), 'Could not rename board');
+  };
+
+  const handleDelete = () => {
+    if (!activeBoard) return;
+    if (window.confirm(`Delete board "${activeBoard.name}"? Its sounds stay in the library.`)) {
+      run(() => deleteBoard(activeBoard.id), 'Could not delete board');
+    }
+  };
+
+  return (
+    <div className={`flex items-center space-x-1 ${className}`}>
+      <LayoutGrid className="h-4 w-4 text-gray-500 flex-shrink-0" />
+      <select
+        value={activeBoard?.id ?? ''}
+        onChange={(e) => selectBoard(e.target.value || null)}
+        className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 max-w-[10rem] sm:max-w-[14rem]"
+        aria-label="Board"
+      >
+        <option value="">All sounds</option>
+        {boards.map(board => (
+          <option key={board.id} value={board.id}>
+            {board.name} ({board.soundIds.length})
+          </option>
+        ))}
+      </select>
+      {canEdit && (
+        <button
+          onClick={handleCreate}
+          className="p-1.5 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg"
+          title="New board"
+        >
+          <Plus className="h-4 w-4" />
+        </button>
+      )}
+      {canEdit && activeBoard && (
+        <>
+          <button
+            onClick={handleRename}
+            className="p-1.5 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg"
+            title="Rename board"
+          >
+            <Pencil className="h-4 w-4" />
+          </button>
+          <button
+            onClick={handleDelete}
+            className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg"
+            title="Delete board"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
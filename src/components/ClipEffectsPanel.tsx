@@ -0,0 +1,168 @@
+import { Sliders } from 'lucide-react';
+import { DEFAULT_FADE_CURVE, DEFAULT_SILENCE_THRESHOLD, NORMALIZE_DEFAULTS } from '../utils/audioEffects';
+import { TrimSettings, FadeCurve, NormalizeMode } from '../types';
+
+interface ClipEffectsPanelProps {
+  trimSettings: TrimSettings;
+  onChange: (trimSettings: TrimSettings) => void;
+  disabled?: boolean;
+}
+
+const FADE_CURVES: { value: FadeCurve; label: string }[] = [
+  { value: 'equal-power', label: 'Smooth (equal power)' },
+  { value: 'linear', label: 'Linear' },
+  { value: 'exponential', label: 'Exponential' }
+];
+
+const MAX_FADE = 5; // seconds
+
+export default function ClipEffectsPanel({ trimSettings, onChange, disabled = false }: ClipEffectsPanelProps) {
+  const normalize = trimSettings.normalize ?? 'off';
+
+  // Update a single effect option
+  const update = (updates: Partial<TrimSettings>) => {
+    onChange({ ...trimSettings, ...updates });
+  };
+
+  // Parse a number input, falling back to 0 for an empty field
+  const readNumber = (value: string) => {
+    const number = parseFloat(value);
+    return Number.isNaN(number) ? 0 : number;
+  };
+
+  const handleNormalizeChange = (mode: NormalizeMode) => {
+    update({
+      normalize: mode,
+      normalizeTarget: mode === 'off' ? undefined : NORMALIZE_DEFAULTS[mode]
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-2">
+        <Sliders className="h-5 w-5 text-gray-600" />
+        <h3 className="text-base sm:text-lg font-medium text-gray-900">Effects</h3>
+      </div>
+
+      {/* Fades */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="fade-in" className="block text-sm font-medium text-gray-700 mb-2">
+            Fade In (s)
+          </label>
+          <input
+            id="fade-in"
+            type="number"
+            min={0}
+            max={MAX_FADE}
+            step={0.01}
+            value={trimSettings.fadeIn ?? 0}
+            onChange={(e) => update({ fadeIn: Math.min(MAX_FADE, Math.max(0, readNumber(e.target.value))) })}
+            disabled={disabled}
+            className="input-field"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="fade-out" className="block text-sm font-medium text-gray-700 mb-2">
+            Fade Out (s)
+          </label>
+          <input
+            id="fade-out"
+            type="number"
+            min={0}
+            max={MAX_FADE}
+            step={0.01}
+            value={trimSettings.fadeOut ?? 0}
+            onChange={(e) => update({ fadeOut: Math.min(MAX_FADE, Math.max(0, readNumber(e.target.value))) })}
+            disabled={disabled}
+            className="input-field"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="fade-curve" className="block text-sm font-medium text-gray-700 mb-2">
+            Fade Curve
+          </label>
+          <select
+            id="fade-curve"
+            value={trimSettings.fadeCurve ?? DEFAULT_FADE_CURVE}
+            onChange={(e) => update({ fadeCurve: e.target.value as FadeCurve })}
+            disabled={disabled || (!trimSettings.fadeIn && !trimSettings.fadeOut)}
+            className="input-field disabled:opacity-50"
+          >
+            {FADE_CURVES.map(curve => (
+              <option key={curve.value} value={curve.value}>{curve.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Normalization */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="normalize-mode" className="block text-sm font-medium text-gray-700 mb-2">
+            Normalize
+          </label>
+          <select
+            id="normalize-mode"
+            value={normalize}
+            onChange={(e) => handleNormalizeChange(e.target.value as NormalizeMode)}
+            disabled={disabled}
+            className="input-field"
+          >
+            <option value="off">Off</option>
+            <option value="peak">Peak level</option>
+            <option value="lufs">Loudness (LUFS)</option>
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="normalize-target" className="block text-sm font-medium text-gray-700 mb-2">
+            Target ({normalize === 'lufs' ? 'LUFS' : 'dBFS'})
+          </label>
+          <input
+            id="normalize-target"
+            type="number"
+            min={normalize === 'lufs' ? -40 : -20}
+            max={normalize === 'lufs' ? -5 : 0}
+            step={0.5}
+            value={normalize === 'off' ? '' : trimSettings.normalizeTarget ?? NORMALIZE_DEFAULTS[normalize]}
+            onChange={(e) => update({ normalizeTarget: readNumber(e.target.value) })}
+            disabled={disabled || normalize === 'off'}
+            className="input-field disabled:opacity-50"
+          />
+        </div>
+      </div>
+
+      {/* Silence */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:space-x-4 space-y-2 sm:space-y-0">
+        <label className="flex items-center space-x-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={trimSettings.trimSilence ?? false}
+            onChange={(e) => update({ trimSilence: e.target.checked })}
+            disabled={disabled}
+          />
+          <span className="text-sm text-gray-700">Trim leading/trailing silence</span>
+        </label>
+
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <span>below</span>
+          <input
+            type="number"
+            min={-90}
+            max={-20}
+            step={1}
+            value={trimSettings.silenceThreshold ?? DEFAULT_SILENCE_THRESHOLD}
+            onChange={(e) => update({ silenceThreshold: readNumber(e.target.value) })}
+            disabled={disabled || !trimSettings.trimSilence}
+            className="input-field w-24 disabled:opacity-50"
+            aria-label="Silence threshold in dBFS"
+          />
+          <span>dBFS</span>
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+import { useState } from 'react';
+import { X, AlertCircle } from 'lucide-react';
+import { useAudio } from '../contexts/AudioContext';
+import { useBoards } from '../contexts/BoardContext';
+import { Sound } from '../types';
+import HotkeyInput from './HotkeyInput';
+import TagEditor from './TagEditor';
+import { collectTags, collectCategories } from '../utils/search';
+import { findHotkeyConflict } from '../utils/hotkeys';
+import { getPlaybackSettings } from '../utils/playbackEngine';
+import { SoundConflictError } from '../utils/soundApi';
+
+interface EditSoundDialogProps {
+  sound: Sound;
+  onClose: () => void;
+}
+
+// Editable fields of a sound as the form holds them
+function formValues(sound: Sound): Partial<Sound> {
+  return {
+    title: sound.title,
+    tags: sound.tags || [],
+    category: sound.category || null,
+    color: sound.color ?? null,
+    description: sound.description || '',
+    hotkey: sound.hotkey ?? null,
+  };
+}
+
+// Kolory do wyboru dla przycisku (null = domyślny gradient)
+const BUTTON_COLORS = ['#2563eb', '#16a34a', '#dc2626', '#d97706', '#9333ea', '#db2777', '#0891b2', '#4b5563'];
+
+export default function EditSoundDialog({ sound, onClose }: EditSoundDialogProps) {
+  const { sounds, updateSound } = useAudio();
+  const { boards, setBoardSounds } = useBoards();
+  const [title, setTitle] = useState(sound.title);
+  const [tags, setTags] = useState<string[]>(sound.tags || []);
+  const [category, setCategory] = useState(sound.category || '');
+  const [color, setColor] = useState<string | null>(sound.color ?? null);
+  const [description, setDescription] = useState(sound.description || '');
+  const [hotkey, setHotkey] = useState<string | null>(sound.hotkey ?? null);
+  const [boardIds, setBoardIds] = useState<string[]>(
+    () => boards.filter(board => board.soundIds.includes(sound.id)).map(board => board.id)
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // What the form was opened with - only fields changed since then are saved
+  const [base, setBase] = useState(() => formValues(sound));
+
+  const hotkeyConflict = hotkey
+    ? findHotkeyConflict(hotkey, sounds, { exceptId: sound.id, panicKey: getPlaybackSettings().panicKey })
+    : null;
+
+  // Handle form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!title.trim()) {
+      setError('Title cannot be empty');
+      return;
+    }
+
+    if (hotkeyConflict) {
+      setError(hotkeyConflict);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      const edited = formValues({
+        ...sound,
+        title: title.trim(),
+        tags,
+        category: category.trim() || null,
+        color,
+        description: description.trim(),
+        hotkey,
+      });
+      const changedKeys = (Object.keys(edited) as (keyof Sound)[])
+        .filter(key => JSON.stringify(edited[key]) !== JSON.stringify(base[key]));
+
+      // Someone else's edits of the other fields stay untouched
+      if (changedKeys.length > 0) {
+        const pick = (values: Partial<Sound>) => Object.fromEntries(changedKeys.map(key => [key, values[key]])) as Partial<Sound>;
+        await updateSound(sound.id, pick(edited), pick(base));
+      }
+
+      // Add to / remove from the boards whose checkbox changed
+      await Promise.all(boards
+        .filter(board => board.soundIds.includes(sound.id) !== boardIds.includes(board.id))
+        .map(board => setBoardSounds(board.id, boardIds.includes(board.id)
+          ? [...board.soundIds, sound.id]
+          : board.soundIds.filter(id => id !== sound.id))));
+
+      onClose();
+    } catch (error) {
+      if (error instanceof SoundConflictError) {
+        // Saving again overwrites their version on purpose
+        setBase(formValues(error.sound));
+        setError(`${error.message}. Their version is on the board now - save again to overwrite it.`);
+        setIsSaving(false);
+        return;
+      }
+      // updateSound already rolled the grid back - keep the dialog open with the user's input
+      setError(error instanceof Error ? error.message : 'Failed to save changes');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-2 sm:p-4 z-50">
+      <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full max-h-[95vh] sm:max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 sm:p-6 border-b border-gray-200">
+          <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Edit Sound</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors p-1"
+            aria-label="Close dialog"
+          >
+            <X size={20} className="sm:w-6 sm:h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 sm:p-6 space-y-4 sm:space-y-6">
+          {/* Title */}
+          <div>
+            <label htmlFor="edit-title" className="block text-sm font-medium text-gray-700 mb-2">
+              Title
+            </label>
+            <input
+              type="text"
+              id="edit-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="input-field"
+              required
+              autoFocus
+            />
+          </div>
+
+          {/* Category */}
+          <div>
+            <label htmlFor="edit-category" className="block text-sm font-medium text-gray-700 mb-2">
+              Category
+            </label>
+            <input
+              type="text"
+              id="edit-category"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              list="edit-category-suggestions"
+              maxLength={40}
+              className="input-field"
+              placeholder="Memes"
+            />
+            <datalist id="edit-category-suggestions">
+              {collectCategories(sounds).map(({ value }) => (
+                <option key={value} value={value} />
+              ))}
+            </datalist>
+          </div>
+
+          {/* Tags */}
+          <div>
+            <label htmlFor="edit-tags" className="block text-sm font-medium text-gray-700 mb-2">
+              Tags
+            </label>
+            <TagEditor
+              id="edit-tags"
+              tags={tags}
+              onChange={setTags}
+              suggestions={collectTags(sounds).map(({ value }) => value)}
+            />
+            <p className="text-xs text-gray-500 mt-1">Press Enter or comma to add a tag</p>
+          </div>
+
+          {/* Color */}
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-2">Button Color</span>
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => setColor(null)}
+                className={`w-8 h-8 rounded-full bg-gradient-to-br from-primary-500 to-primary-600 ${
+                  color === null ? 'ring-4 ring-offset-1 ring-gray-400' : ''
+                }`}
+                aria-label="Default color"
+                title="Default"
+              />
+              {BUTTON_COLORS.map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setColor(option)}
+                  className={`w-8 h-8 rounded-full ${color === option ? 'ring-4 ring-offset-1 ring-gray-400' : ''}`}
+                  style={{ backgroundColor: option }}
+                  aria-label={`Color ${option}`}
+                  title={option}
+                />
+              ))}
+            </div>
+          </div>
+
+          {/* Description */}
+          <div>
+            <label htmlFor="edit-description" className="block text-sm font-medium text-gray-700 mb-2">
+              Description
+            </label>
+            <textarea
+              id="edit-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="input-field"
+              rows={3}
+              maxLength={500}
+              placeholder="Where is this sound from?"
+            />
+          </div>
+
+          {/* Hotkey */}
+          <div>
+            <label htmlFor="edit-hotkey" className="block text-sm font-medium text-gray-700 mb-2">
+              Hotkey
+            </label>
+            <HotkeyInput id="edit-hotkey" value={hotkey} onChange={setHotkey} conflict={hotkeyConflict} />
+          </div>
+
+          {/* Boards */}
+          {boards.length > 0 && (
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-2">Boards</span>
+              <div className="flex flex-wrap gap-x-4 gap-y-2">
+                {boards.map(board => (
+                  <label key={board.id} className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={boardIds.includes(board.id)}
+                      onChange={(e) => setBoardIds(prev => e.target.checked
+                        ? [...prev, board.id]
+                        : prev.filter(id => id !== board.id))}
+                    />
+                    <span>{board.name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Error Display */}
+          {error && (
+            <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <AlertCircle className="h-5 w-5 text-red-600" />
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          {/* Action Buttons */}
+          <div className="flex flex-col sm:flex-row items-stretch sm:items-center justify-end space-y-2 sm:space-y-0 sm:space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="btn-secondary flex-1 sm:flex-none"
+              disabled={isSaving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="btn-primary flex-1 sm:flex-none"
+              disabled={isSaving || !title.trim() || !!hotkeyConflict}
+            >
+              {isSaving ? 'Saving...' : 'Save Changes'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
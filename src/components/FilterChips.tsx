@@ -0,0 +1,70 @@
+import { Tag, Folder, X } from 'lucide-react';
+import { Facet } from '../types';
+
+interface FilterChipsProps {
+  categories: Facet[];
+  tags: Facet[];
+  selectedCategory: string | null;
+  selectedTags: string[];
+  onCategoryChange: (category: string | null) => void;
+  onTagToggle: (tag: string) => void;
+  onClear: () => void;
+}
+
+// Faceted filters: one category at a time, tags combine (a sound needs all of them)
+export default function FilterChips({
+  categories,
+  tags,
+  selectedCategory,
+  selectedTags,
+  onCategoryChange,
+  onTagToggle,
+  onClear
+}: FilterChipsProps) {
+  if (categories.length === 0 && tags.length === 0) return null;
+
+  const chipClass = (active: boolean) => `
+    flex items-center space-x-1 px-3 py-1 rounded-full text-sm border transition-colors touch-manipulation
+    ${active ? 'bg-primary-500 border-primary-500 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'}
+  `;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {categories.map(({ value, count }) => (
+        <button
+          key={`category-${value}`}
+          onClick={() => onCategoryChange(selectedCategory === value ? null : value)}
+          className={chipClass(selectedCategory === value)}
+          aria-pressed={selectedCategory === value}
+        >
+          <Folder className="h-3.5 w-3.5" />
+          <span>{value}</span>
+          <span className="opacity-70">{count}</span>
+        </button>
+      ))}
+
+      {tags.map(({ value, count }) => (
+        <button
+          key={`tag-${value}`}
+          onClick={() => onTagToggle(value)}
+          className={chipClass(selectedTags.includes(value))}
+          aria-pressed={selectedTags.includes(value)}
+        >
+          <Tag className="h-3.5 w-3.5" />
+          <span>{value}</span>
+          <span className="opacity-70">{count}</span>
+        </button>
+      ))}
+
+      {(selectedCategory || selectedTags.length > 0) && (
+        <button
+          onClick={onClear}
+          className="flex items-center space-x-1 px-2 py-1 text-sm text-gray-500 hover:text-gray-700"
+        >
+          <X className="h-3.5 w-3.5" />
+          <span>Clear filters</span>
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { Keyboard, X } from 'lucide-react';
+import { eventToHotkey } from '../utils/hotkeys';
+
+interface HotkeyInputProps {
+  id?: string;
+  value: string | null;
+  onChange: (hotkey: string | null) => void;
+  conflict?: string | null;
+  disabled?: boolean;
+}
+
+// Click, then press the key combination to bind. Clicking again or leaving the field cancels.
+export default function HotkeyInput({ id, value, onChange, conflict = null, disabled = false }: HotkeyInputProps) {
+  const [isRecording, setIsRecording] = useState(false);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLButtonElement>) => {
+    if (!isRecording) return;
+
+    // Tab still moves focus
+    if (event.key === 'Tab') {
+      setIsRecording(false);
+      return;
+    }
+
+    // Keep the key away from the form and the global hotkey listener
+    event.preventDefault();
+    event.stopPropagation();
+
+    const hotkey = eventToHotkey(event.nativeEvent);
+    if (!hotkey) return; // Still holding modifiers
+
+    onChange(hotkey);
+    setIsRecording(false);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center space-x-2">
+        <button
+          id={id}
+          type="button"
+          onClick={() => setIsRecording(prev => !prev)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setIsRecording(false)}
+          disabled={disabled}
+          className={`input-field flex items-center space-x-2 text-left disabled:opacity-50 ${
+            isRecording ? 'ring-2 ring-primary-500' : ''
+          } ${conflict ? 'border-red-400' : ''}`}
+        >
+          <Keyboard className="h-4 w-4 text-gray-400 flex-shrink-0" />
+          {isRecording ? (
+            <span className="text-primary-600">Press a key...</span>
+          ) : value ? (
+            <kbd className="font-mono text-sm">{value}</kbd>
+          ) : (
+            <span className="text-gray-400">None</span>
+          )}
+        </button>
+        {value && !isRecording && (
+          <button
+            type="button"
+            onClick={() => onChange(null)}
+            disabled={disabled}
+            className="text-gray-400 hover:text-gray-600 p-1"
+            aria-label="Remove hotkey"
+          >
+            <X size={16} />
+          </button>
+        )}
+      </div>
+      {conflict && <p className="text-xs text-red-600 mt-1">{conflict}</p>}
+    </div>
+  );
+}
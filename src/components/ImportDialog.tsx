@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { X, AlertCircle, CheckCircle } from 'lucide-react';
+import { useAudio } from '../contexts/AudioContext';
+import { ImportMode, ImportPreview, ImportResult } from '../types';
+
+interface ImportDialogProps {
+  preview: ImportPreview;
+  onClose: () => void;
+}
+
+export default function ImportDialog({ preview, onClose }: ImportDialogProps) {
+  const { sounds, importSounds } = useAudio();
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const problems = [...preview.invalid, ...preview.missing].sort((a, b) => a.index - b.index);
+  const willRemove = mode === 'replace'
+    ? sounds.filter(sound => !preview.entries.some(entry => entry.id === sound.id || entry.filename === sound.filename)).length
+    : 0;
+
+  // Handle import
+  const handleImport = async () => {
+    if (willRemove > 0 && !window.confirm(`Replace will delete ${willRemove} sounds that are not in the import. Continue?`)) {
+      return;
+    }
+
+    try {
+      setIsImporting(true);
+      setError(null);
+      setResult(await importSounds(preview.entries, mode));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to import sounds');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-2 sm:p-4 z-50">
+      <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full max-h-[95vh] sm:max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 sm:p-6 border-b border-gray-200">
+          <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Import Sounds</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors p-1"
+            aria-label="Close dialog"
+          >
+            <X size={20} className="sm:w-6 sm:h-6" />
+          </button>
+        </div>
+
+        <div className="p-4 sm:p-6 space-y-4 sm:space-y-6">
+          {result ? (
+            <div className="flex items-start space-x-3 p-3 bg-green-50 border border-green-200 rounded-lg">
+              <CheckCircle className="h-5 w-5 text-green-600 flex-shrink-0" />
+              <div className="text-sm text-green-700 space-y-1">
+                <p>Imported {result.imported} sounds.</p>
+                {result.removed > 0 && <p>Removed {result.removed} sounds that were not in the import.</p>}
+                {result.skipped.map((item, i) => (
+                  <p key={i} className="text-yellow-700">Skipped "{item.title}": {item.reason}</p>
+                ))}
+                {result.warnings.map((item, i) => (
+                  <p key={i} className="text-yellow-700">"{item.title}": {item.reason}</p>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <>
+              {/* Summary */}
+              <div className="bg-gray-50 rounded-lg p-3 text-sm text-gray-700 space-y-1">
+                <p>{preview.entries.length} sounds ready to import</p>
+                {preview.duplicates > 0 && <p>{preview.duplicates} duplicates ignored (same id or file)</p>}
+                {problems.length > 0 && <p>{problems.length} entries cannot be imported</p>}
+              </div>
+
+              {/* Problems */}
+              {problems.length > 0 && (
+                <ul className="max-h-40 overflow-y-auto text-sm border border-yellow-200 bg-yellow-50 rounded-lg p-3 space-y-1">
+                  {problems.map(issue => (
+                    <li key={issue.index} className="text-yellow-800">
+                      <span className="font-medium">{issue.title}</span>: {issue.reason}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {/* Mode */}
+              <div className="space-y-2">
+                <label className="flex items-start space-x-3 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="import-mode"
+                    checked={mode === 'merge'}
+                    onChange={() => setMode('merge')}
+                    className="mt-1"
+                  />
+                  <span className="text-sm text-gray-700">
+                    <span className="font-medium">Merge</span> - update matching sounds, keep everything else
+                  </span>
+                </label>
+                <label className="flex items-start space-x-3 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="import-mode"
+                    checked={mode === 'replace'}
+                    onChange={() => setMode('replace')}
+                    className="mt-1"
+                  />
+                  <span className="text-sm text-gray-700">
+                    <span className="font-medium">Replace</span> - the board will contain only the imported sounds
+                    {willRemove > 0 && <span className="text-red-600"> ({willRemove} will be deleted)</span>}
+                  </span>
+                </label>
+              </div>
+            </>
+          )}
+
+          {/* Error Display */}
+          {error && (
+            <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <AlertCircle className="h-5 w-5 text-red-600" />
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          {/* Action Buttons */}
+          <div className="flex flex-col sm:flex-row items-stretch sm:items-center justify-end space-y-2 sm:space-y-0 sm:space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="btn-secondary flex-1 sm:flex-none"
+              disabled={isImporting}
+            >
+              {result ? 'Close' : 'Cancel'}
+            </button>
+            {!result && (
+              <button
+                type="button"
+                onClick={handleImport}
+                className="btn-primary flex-1 sm:flex-none"
+                disabled={isImporting || preview.entries.length === 0}
+              >
+                {isImporting ? 'Importing...' : `Import ${preview.entries.length} Sounds`}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
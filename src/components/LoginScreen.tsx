@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { Music, X, AlertCircle, KeyRound, User } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+
+interface LoginScreenProps {
+  onClose?: () => void; // Not set when the board cannot be used without logging in
+}
+
+type LoginMethod = 'account' | 'token';
+
+// Log in with a local account or the shared access token from the server's .env
+export default function LoginScreen({ onClose }: LoginScreenProps) {
+  const { login, loginWithToken } = useAuth();
+  const [method, setMethod] = useState<LoginMethod>('account');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [token, setToken] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canSubmit = method === 'account' ? Boolean(username.trim() && password) : Boolean(token.trim());
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      if (method === 'account') {
+        await login(username.trim(), password);
+      } else {
+        await loginWithToken(token.trim());
+      }
+      onClose?.();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Login failed');
+      setPassword('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const tabClass = (active: boolean) => `
+    flex-1 flex items-center justify-center space-x-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors
+    ${active ? 'bg-primary-100 text-primary-700' : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'}
+  `;
+
+  return (
+    <div className={`fixed inset-0 flex items-center justify-center p-2 sm:p-4 z-50 ${onClose ? 'bg-black bg-opacity-50' : 'bg-gray-50'}`}>
+      <div className="bg-white rounded-xl shadow-2xl max-w-sm w-full">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 sm:p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3">
+            <div className="flex items-center justify-center w-8 h-8 bg-primary-600 rounded-lg">
+              <Music className="h-4 w-4 text-white" />
+            </div>
+            <h2 className="text-xl font-bold text-gray-900">Sign in</h2>
+          </div>
+          {onClose && (
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors p-1"
+              aria-label="Close dialog"
+            >
+              <X size={20} />
+            </button>
+          )}
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 sm:p-6 space-y-4">
+          <div className="flex space-x-1">
+            <button type="button" onClick={() => setMethod('account')} className={tabClass(method === 'account')}>
+              <User className="h-4 w-4" />
+              <span>Account</span>
+            </button>
+            <button type="button" onClick={() => setMethod('token')} className={tabClass(method === 'token')}>
+              <KeyRound className="h-4 w-4" />
+              <span>Access token</span>
+            </button>
+          </div>
+
+          {method === 'account' ? (
+            <>
+              <div>
+                <label htmlFor="login-username" className="block text-sm font-medium text-gray-700 mb-2">
+                  Username
+                </label>
+                <input
+                  id="login-username"
+                  type="text"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  className="input-field"
+                  autoComplete="username"
+                  autoFocus
+                />
+              </div>
+              <div>
+                <label htmlFor="login-password" className="block text-sm font-medium text-gray-700 mb-2">
+                  Password
+                </label>
+                <input
+                  id="login-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="input-field"
+                  autoComplete="current-password"
+                />
+              </div>
+            </>
+          ) : (
+            <div>
+              <label htmlFor="login-token" className="block text-sm font-medium text-gray-700 mb-2">
+                Access token
+              </label>
+              <input
+                id="login-token"
+                type="password"
+                value={token}
+                onChange={(e) => setToken(e.target.value)}
+                className="input-field"
+                autoComplete="off"
+                autoFocus
+              />
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <AlertCircle className="h-4 w-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={!canSubmit || isSubmitting}
+            className="btn-primary w-full disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? 'Signing in...' : 'Sign in'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { Volume2, Square } from 'lucide-react';
+import { getPlaybackSettings, updatePlaybackSettings, stopAll, VOICE_LIMITS } from '../utils/playbackEngine';
+import { findHotkeyConflict } from '../utils/hotkeys';
+import { useAudio } from '../contexts/AudioContext';
+import { useBoards } from '../contexts/BoardContext';
+import { PlaybackMode, PlaybackSettings } from '../types';
+import HotkeyInput from './HotkeyInput';
+
+interface PlaybackControlsProps {
+  playingCount: number;
+}
+
+export default function PlaybackControls({ playingCount }: PlaybackControlsProps) {
+  const { sounds } = useAudio();
+  const { layout, updateLayout } = useBoards();
+  const [settings, setSettings] = useState<PlaybackSettings>(getPlaybackSettings);
+
+  // The panic key wins, but a sound bound to the same key would never play
+  const panicConflict = settings.panicKey ? findHotkeyConflict(settings.panicKey, sounds) : null;
+
+  // Apply a change to the engine and mirror it here
+  const handleChange = (updates: Partial<PlaybackSettings>) => {
+    updatePlaybackSettings(updates);
+    setSettings(getPlaybackSettings());
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 bg-white border border-gray-200 rounded-lg p-3">
+      {/* Mode - saved with the board, like its sorting */}
+      <div className="flex border border-gray-300 rounded-lg overflow-hidden text-sm">
+        {(['exclusive', 'overlap'] as PlaybackMode[]).map(mode => (
+          <button
+            key={mode}
+            onClick={() => updateLayout({ playbackMode: mode })}
+            className={`px-3 py-1.5 font-medium ${layout.playbackMode === mode ? 'bg-primary-500 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+            title={mode === 'exclusive' ? 'A new sound stops the previous one' : 'Sounds play on top of each other'}
+          >
+            {mode === 'exclusive' ? 'Exclusive' : 'Overlap'}
+          </button>
+        ))}
+      </div>
+
+      {/* Voice limit */}
+      {layout.playbackMode === 'overlap' && (
+        <label className="flex items-center space-x-2 text-sm text-gray-600">
+          <span>Max voices</span>
+          <select
+            value={settings.voiceLimit}
+            onChange={(e) => handleChange({ voiceLimit: parseInt(e.target.value, 10) })}
+            className="px-2 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            {VOICE_LIMITS.map(limit => (
+              <option key={limit} value={limit}>{limit}</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {/* Master volume */}
+      <label className="flex items-center space-x-2 text-sm text-gray-600 flex-1 min-w-[10rem]">
+        <Volume2 className="h-4 w-4 flex-shrink-0" />
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.01}
+          value={settings.masterVolume}
+          onChange={(e) => handleChange({ masterVolume: parseFloat(e.target.value) })}
+          className="w-full touch-manipulation"
+          aria-label="Master volume"
+        />
+        <span className="w-10 text-right">{Math.round(settings.masterVolume * 100)}%</span>
+      </label>
+
+      {/* Panic key */}
+      <div className="flex items-center space-x-2 text-sm text-gray-600">
+        <span>Stop key</span>
+        <HotkeyInput value={settings.panicKey} onChange={(panicKey) => handleChange({ panicKey })} conflict={panicConflict} />
+      </div>
+
+      {/* Stop all */}
+      <button
+        onClick={stopAll}
+        disabled={playingCount === 0}
+        className="btn-secondary flex items-center space-x-2 disabled:opacity-50"
+      >
+        <Square className="h-4 w-4" />
+        <span>Stop All{playingCount > 0 ? ` (${playingCount})` : ''}</span>
+        {settings.panicKey && <kbd className="font-mono text-xs opacity-70">{settings.panicKey}</kbd>}
+      </button>
+    </div>
+  );
+}
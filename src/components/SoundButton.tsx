@@ -1,32 +1,64 @@
 import { useState, useRef, useEffect } from 'react';
-import { Play, Pause, Edit3, Trash2, Volume2, VolumeX } from 'lucide-react';
+import { Play, Pause, Edit3, Trash2, Volume2, VolumeX, Star } from 'lucide-react';
 import { Sound } from '../types';
+import { useAudio } from '../contexts/AudioContext';
+import { useAuth } from '../contexts/AuthContext';
 import { formatTime, formatFileSize } from '../utils/audioUtils';
+import { loadSound, getVoiceOptions, GAIN_RANGE } from '../utils/playbackEngine';
+import { useAudioPlayer } from '../hooks/useAudioPlayer';
 
 interface SoundButtonProps {
   sound: Sound;
   onEdit: (sound: Sound) => void;
   onDelete: (id: string) => void;
-  isPlaying: boolean;
-  onPlay: (sound: Sound) => void;
-  onPause: () => void;
+  onError: (error: unknown, sound: Sound) => void;
 }
 
+type PlaybackFields = Pick<Sound, 'gain' | 'playbackRate' | 'muted'>;
+
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+const SAVE_DELAY = 400; // ms after the last slider move
+
+const RING_RADIUS = 16;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
 export default function SoundButton({ 
   sound, 
   onEdit, 
   onDelete, 
-  isPlaying, 
-  onPlay, 
-  onPause 
+  onError 
 }: SoundButtonProps) {
+  const { updateSound, recordPlay } = useAudio();
+  // Menu and playback settings change the sound on the server - not for viewers
+  const canEdit = useAuth().can('editor');
+  // Unsaved slider values - applied to playback right away, saved after a pause
+  const [draft, setDraft] = useState<PlaybackFields>({});
+  const playback: PlaybackFields = { ...sound, ...draft };
+  const { player, isPlaying, progress } = useAudioPlayer(sound.id, () => loadSound(sound), getVoiceOptions(playback));
   const [showMenu, setShowMenu] = useState(false);
-  const [volume, setVolume] = useState(1);
-  const [isMuted, setIsMuted] = useState(false);
   const [showVolumeControl, setShowVolumeControl] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
   const volumeRef = useRef<HTMLDivElement>(null);
 
+  const gain = playback.gain ?? 0;
+  const isMuted = playback.muted ?? false;
+
+  // Latest callbacks for the delayed save, without restarting the timer on every render
+  const saveRef = useRef(() => {});
+  saveRef.current = () => {
+    // The optimistic update carries the values from here on (or rolls them back)
+    updateSound(sound.id, draft).catch(error => onError(error, sound));
+    setDraft({});
+  };
+
+  // Persist playback settings once the user stops dragging
+  useEffect(() => {
+    if (Object.keys(draft).length === 0) return;
+
+    const timer = window.setTimeout(() => saveRef.current(), SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [draft]);
+
   // Close menu when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -53,9 +85,15 @@ export default function SoundButton({
     }
     
     if (isPlaying) {
-      onPause();
+      player.stop();
     } else {
-      onPlay(sound);
+      // Resuming after a pause is not a new play
+      const isNewPlay = !player.isPaused;
+      player.play()
+        .then(() => {
+          if (isNewPlay) recordPlay(sound.id);
+        })
+        .catch(error => onError(error, sound));
     }
   };
 
@@ -74,21 +112,15 @@ export default function SoundButton({
     target.style.transform = 'scale(1)';
   };
 
-  // Handle volume change
-  const handleVolumeChange = (newVolume: number) => {
-    setVolume(newVolume);
-    setIsMuted(newVolume === 0);
+  // Change a playback setting (saved after SAVE_DELAY)
+  const handlePlaybackChange = (updates: PlaybackFields) => {
+    setDraft(prev => ({ ...prev, ...updates }));
   };
 
-  // Handle mute toggle
-  const handleMuteToggle = () => {
-    if (isMuted) {
-      setIsMuted(false);
-      setVolume(1);
-    } else {
-      setIsMuted(true);
-      setVolume(0);
-    }
+  // Toggle favorite
+  const handleFavorite = () => {
+    setShowMenu(false);
+    updateSound(sound.id, { favorite: !sound.favorite }).catch(error => onError(error, sound));
   };
 
   // Handle edit
@@ -97,12 +129,10 @@ export default function SoundButton({
     onEdit(sound);
   };
 
-  // Handle delete
+  // Handle delete - no confirm, the sound goes to the trash and the undo toast can bring it back
   const handleDelete = () => {
     setShowMenu(false);
-    if (window.confirm(`Are you sure you want to delete "${sound.title}"?`)) {
-      onDelete(sound.id);
-    }
+    onDelete(sound.id);
   };
 
   return (
@@ -113,26 +143,44 @@ export default function SoundButton({
         onTouchStart={handleTouchStart}
         onTouchEnd={handleTouchEnd}
         className={`
-          w-full h-20 sm:h-24 bg-gradient-to-br from-primary-500 to-primary-600 
-          hover:from-primary-600 hover:to-primary-700 
+          w-full h-20 sm:h-24 
+          ${sound.color ? 'hover:brightness-110' : 'bg-gradient-to-br from-primary-500 to-primary-600 hover:from-primary-600 hover:to-primary-700'} 
           text-white rounded-xl shadow-lg hover:shadow-xl 
           transition-all duration-200 transform hover:scale-105 active:scale-95
           focus:outline-none focus:ring-4 focus:ring-primary-300 
           flex flex-col items-center justify-center space-y-1 sm:space-y-2
-          ${isPlaying ? 'ring-4 ring-yellow-400 animate-pulse' : ''}
+          ${isPlaying ? 'ring-4 ring-yellow-400' : ''}
           touch-manipulation
         `}
-        aria-label={`${isPlaying ? 'Pause' : 'Play'} sound: ${sound.title}`}
-        title={`${sound.title} (${formatTime(sound.duration)}) - ${sound.fileType} - ${formatFileSize(sound.fileSize)}`}
+        style={sound.color ? { backgroundColor: sound.color } : undefined}
+        aria-label={`${isPlaying ? 'Stop' : 'Play'} sound: ${sound.title}`}
+        title={`${sound.title} (${formatTime(sound.duration)}) - ${sound.fileType} - ${formatFileSize(sound.fileSize)}${sound.description ? `\n${sound.description}` : ''}${sound.hotkey ? `\nHotkey: ${sound.hotkey}` : ''}${sound.playCount ? `\nPlayed ${sound.playCount}×` : ''}`}
       >
-        {/* Play/Pause Icon */}
-        <div className="text-xl sm:text-2xl">
-          {isPlaying ? <Pause size={20} className="sm:w-6 sm:h-6" /> : <Play size={20} className="sm:w-6 sm:h-6" />}
+        {/* Play/Pause Icon with progress ring */}
+        <div className="relative flex items-center justify-center w-9 h-9 sm:w-10 sm:h-10">
+          {isPlaying && (
+            <svg className="absolute inset-0 w-full h-full -rotate-90" viewBox="0 0 36 36" aria-hidden="true">
+              <circle cx="18" cy="18" r={RING_RADIUS} fill="none" stroke="currentColor" strokeOpacity="0.3" strokeWidth="2.5" />
+              <circle
+                cx="18"
+                cy="18"
+                r={RING_RADIUS}
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2.5"
+                strokeLinecap="round"
+                strokeDasharray={RING_CIRCUMFERENCE}
+                strokeDashoffset={RING_CIRCUMFERENCE * (1 - progress)}
+              />
+            </svg>
+          )}
+          {isPlaying ? <Pause size={18} className="sm:w-5 sm:h-5" /> : <Play size={20} className="sm:w-6 sm:h-6" />}
         </div>
         
         {/* Title */}
         <div className="text-center px-1 sm:px-2 w-full">
           <p className="text-xs sm:text-sm font-medium leading-tight line-clamp-2">
+            {sound.favorite && <Star size={12} className="inline mr-1 -mt-0.5 fill-current" aria-label="Favorite" />}
             {sound.title}
           </p>
           <p className="text-xs opacity-80 mt-1">
@@ -141,35 +189,49 @@ export default function SoundButton({
         </div>
       </button>
 
+      {/* Hotkey badge */}
+      {sound.hotkey && (
+        <kbd
+          className="absolute bottom-1 right-1 sm:bottom-2 sm:right-2 px-1.5 py-0.5 rounded bg-black bg-opacity-30 text-white text-[10px] font-mono leading-none pointer-events-none"
+          title={`Hotkey: ${sound.hotkey}`}
+        >
+          {sound.hotkey}
+        </kbd>
+      )}
+
       {/* Action Menu Button - Mobile Optimized */}
-      <button
-        onClick={() => setShowMenu(!showMenu)}
-        className={`
-          absolute top-1 right-1 sm:top-2 sm:right-2 w-8 h-8 sm:w-6 sm:h-6 bg-white bg-opacity-20 
-          hover:bg-opacity-30 rounded-full flex items-center justify-center 
-          transition-all duration-200 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100
-          focus:outline-none focus:ring-2 focus:ring-white touch-manipulation
-          sm:opacity-0 sm:group-hover:opacity-100
-        `}
-        aria-label="More options"
-      >
-        <span className="text-white text-xs sm:text-xs">⋯</span>
-      </button>
+      {canEdit && (
+        <button
+          onClick={() => setShowMenu(!showMenu)}
+          className={`
+            absolute top-1 right-1 sm:top-2 sm:right-2 w-8 h-8 sm:w-6 sm:h-6 bg-white bg-opacity-20 
+            hover:bg-opacity-30 rounded-full flex items-center justify-center 
+            transition-all duration-200 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100
+            focus:outline-none focus:ring-2 focus:ring-white touch-manipulation
+            sm:opacity-0 sm:group-hover:opacity-100
+          `}
+          aria-label="More options"
+        >
+          <span className="text-white text-xs sm:text-xs">⋯</span>
+        </button>
+      )}
 
       {/* Volume Control Button - Mobile Optimized */}
-      <button
-        onClick={() => setShowVolumeControl(!showVolumeControl)}
-        className={`
-          absolute top-1 left-1 sm:top-2 sm:left-2 w-8 h-8 sm:w-6 sm:h-6 bg-white bg-opacity-20 
-          hover:bg-opacity-30 rounded-full flex items-center justify-center 
-          transition-all duration-200 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100
-          focus:outline-none focus:ring-2 focus:ring-white touch-manipulation
-          sm:opacity-0 sm:group-hover:opacity-100
-        `}
-        aria-label={isMuted ? 'Unmute' : 'Mute'}
-      >
-        {isMuted ? <VolumeX size={14} className="sm:w-3 sm:h-3" /> : <Volume2 size={14} className="sm:w-3 sm:h-3" />}
-      </button>
+      {canEdit && (
+        <button
+          onClick={() => setShowVolumeControl(!showVolumeControl)}
+          className={`
+            absolute top-1 left-1 sm:top-2 sm:left-2 w-8 h-8 sm:w-6 sm:h-6 bg-white bg-opacity-20 
+            hover:bg-opacity-30 rounded-full flex items-center justify-center 
+            transition-all duration-200 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100
+            focus:outline-none focus:ring-2 focus:ring-white touch-manipulation
+            sm:opacity-0 sm:group-hover:opacity-100
+          `}
+          aria-label={isMuted ? 'Unmute' : 'Mute'}
+        >
+          {isMuted ? <VolumeX size={14} className="sm:w-3 sm:h-3" /> : <Volume2 size={14} className="sm:w-3 sm:h-3" />}
+        </button>
+      )}
 
       {/* Action Menu - Mobile Optimized */}
       {showMenu && (
@@ -177,6 +239,13 @@ export default function SoundButton({
           ref={menuRef}
           className="absolute top-full right-0 w-32 sm:w-32 bg-white rounded-lg shadow-lg border border-gray-200 py-1 z-10 mt-1"
         >
+          <button
+            onClick={handleFavorite}
+            className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-100 flex items-center space-x-2 touch-manipulation"
+          >
+            <Star size={14} className={sound.favorite ? 'fill-current text-yellow-500' : ''} />
+            <span>{sound.favorite ? 'Unfavorite' : 'Favorite'}</span>
+          </button>
           <button
             onClick={handleEdit}
             className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-100 flex items-center space-x-2 touch-manipulation"
@@ -198,13 +267,13 @@ export default function SoundButton({
       {showVolumeControl && (
         <div
           ref={volumeRef}
-          className="absolute top-full left-0 w-32 sm:w-32 bg-white rounded-lg shadow-lg border border-gray-200 p-3 z-10 mt-1"
+          className="absolute top-full left-0 w-40 bg-white rounded-lg shadow-lg border border-gray-200 p-3 z-10 mt-1"
         >
           <div className="space-y-2">
             <div className="flex items-center justify-between">
-              <span className="text-xs text-gray-600">Volume</span>
+              <span className="text-xs text-gray-600">Gain</span>
               <button
-                onClick={handleMuteToggle}
+                onClick={() => handlePlaybackChange({ muted: !isMuted })}
                 className="text-gray-500 hover:text-gray-700 touch-manipulation"
                 aria-label={isMuted ? 'Unmute' : 'Mute'}
               >
@@ -213,19 +282,31 @@ export default function SoundButton({
             </div>
             <input
               type="range"
-              min="0"
-              max="1"
-              step="0.1"
-              value={isMuted ? 0 : volume}
-              onChange={(e) => handleVolumeChange(parseFloat(e.target.value))}
-              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider touch-manipulation"
-              style={{
-                background: `linear-gradient(to right, #3b82f6 0%, #3b82f6 ${(isMuted ? 0 : volume) * 100}%, #e5e7eb ${(isMuted ? 0 : volume) * 100}%, #e5e7eb 100%)`
-              }}
+              min={GAIN_RANGE.min}
+              max={GAIN_RANGE.max}
+              step="1"
+              value={gain}
+              onChange={(e) => handlePlaybackChange({ gain: parseFloat(e.target.value) })}
+              disabled={isMuted}
+              className="w-full touch-manipulation disabled:opacity-50"
+              aria-label="Gain in dB"
             />
             <div className="text-xs text-gray-500 text-center">
-              {Math.round((isMuted ? 0 : volume) * 100)}%
+              {isMuted ? 'Muted' : `${gain > 0 ? '+' : ''}${gain} dB`}
             </div>
+
+            <label className="block text-xs text-gray-600">
+              Speed
+              <select
+                value={playback.playbackRate ?? 1}
+                onChange={(e) => handlePlaybackChange({ playbackRate: parseFloat(e.target.value) })}
+                className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-xs"
+              >
+                {PLAYBACK_RATES.map(rate => (
+                  <option key={rate} value={rate}>{rate}x</option>
+                ))}
+              </select>
+            </label>
           </div>
         </div>
       )}
@@ -1,30 +1,60 @@
 import { useState, useMemo, useEffect } from 'react';
-import { Search, Plus, Grid3X3, List, Filter, Menu } from 'lucide-react';
+import { Search, Plus, Grid3X3, List, Filter, Menu, GripVertical, LayoutGrid, Star, Clock, TrendingUp } from 'lucide-react';
 import { useAudio } from '../contexts/AudioContext';
-import { Sound } from '../types';
+import { useBoards } from '../contexts/BoardContext';
+import { useAuth } from '../contexts/AuthContext';
+import { Sound, SortField, SoundView } from '../types';
 import SoundButton from './SoundButton';
 import UploadForm from './UploadForm';
+import EditSoundDialog from './EditSoundDialog';
+import PlaybackControls from './PlaybackControls';
+import FilterChips from './FilterChips';
 import { 
   isMobile, 
   isTouchDevice, 
-  createMobileAudioElement, 
-  handleMobileAutoplay, 
   getMobileAudioErrorMessage 
 } from '../utils/mobileAudioUtils';
+import { unlockAudio, preloadSounds, pruneCache, subscribeToVoices } from '../utils/playbackEngine';
+import { useSoundHotkeys } from '../hooks/useSoundHotkeys';
+import { useSlotDrag } from '../hooks/useSlotDrag';
+import { resolveSlots, moveSlot } from '../utils/gridLayout';
+import { collectTags, collectCategories } from '../utils/search';
+
+// How many sounds the Recent and Most played sections show
+const HISTORY_LIMIT = 20;
+
+const SOUND_VIEWS: { value: SoundView; label: string; icon: typeof Star; empty: string }[] = [
+  { value: 'all', label: 'All', icon: Grid3X3, empty: '' },
+  { value: 'favorites', label: 'Favorites', icon: Star, empty: 'No favorites yet. Star a sound from its ⋯ menu.' },
+  { value: 'recent', label: 'Recent', icon: Clock, empty: 'Nothing played yet.' },
+  { value: 'mostPlayed', label: 'Most played', icon: TrendingUp, empty: 'Nothing played yet.' }
+];
 
 export default function SoundGrid() {
   console.log('🎵 SoundGrid component rendered');
-  const { sounds, searchSounds, deleteSound } = useAudio();
+  const { sounds, searchSounds, deleteSound, reorderSounds, recordPlay } = useAudio();
   console.log('🎵 SoundGrid - useAudio hook result:', { sounds, searchSounds, deleteSound });
   const [searchQuery, setSearchQuery] = useState('');
+  const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [soundView, setSoundView] = useState<SoundView>('all');
   const [showUploadForm, setShowUploadForm] = useState(false);
-  const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
-  const [sortBy, setSortBy] = useState<'title' | 'duration' | 'createdAt'>('title');
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
+  const [editingSound, setEditingSound] = useState<Sound | null>(null);
+  const { activeBoard, layout, updateLayout, setBoardPositions } = useBoards();
+  const { can } = useAuth();
+  const { viewMode, sortBy, sortOrder } = layout;
+  const isManual = sortBy === 'manual';
+  const isFiltered = !!searchQuery || selectedCategory !== null || selectedTags.length > 0;
+  // Viewers only listen - no uploads, edits or dragging
+  const canEdit = can('editor');
+  // Dragging needs the whole board - a filtered view would hide the slots in between
+  const showsManualLayout = isManual && !isFiltered && soundView === 'all';
+  const canReorder = showsManualLayout && canEdit;
+  const showFixedSlots = showsManualLayout && layout.fixedSlots && viewMode === 'grid';
   const [error, setError] = useState<string | null>(null);
   const [showMobileControls, setShowMobileControls] = useState(false);
-  const [audioContext, setAudioContext] = useState<AudioContext | null>(null);
   const [isAudioInitialized, setIsAudioInitialized] = useState(false);
+  const [playingIds, setPlayingIds] = useState<Set<string>>(new Set());
   const [isMobileDevice, setIsMobileDevice] = useState(false);
   const [isTouchSupported, setIsTouchSupported] = useState(false);
 
@@ -38,24 +68,21 @@ export default function SoundGrid() {
     });
   }, []);
 
-  // Initialize Web Audio API on first user interaction
+  // Unlock the playback engine on first user interaction
   useEffect(() => {
     const initializeAudio = () => {
       if (!isAudioInitialized && typeof window !== 'undefined') {
-        try {
-          // Create AudioContext on first user interaction
-          const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
-          setAudioContext(ctx);
-          setIsAudioInitialized(true);
-          console.log('🎵 Web Audio API initialized successfully');
-        } catch (error) {
-          console.error('❌ Failed to initialize Web Audio API:', error);
-        }
+        unlockAudio()
+          .then(() => {
+            setIsAudioInitialized(true);
+            console.log('🎵 Web Audio API initialized successfully');
+          })
+          .catch(error => console.error('❌ Failed to initialize Web Audio API:', error));
       }
     };
 
     // Initialize on various user interactions
-    const events = ['touchstart', 'mousedown', 'keydown', 'scroll'];
+    const events = ['touchstart', 'mousedown', 'keydown'];
     events.forEach(event => {
       document.addEventListener(event, initializeAudio, { once: true, passive: true });
     });
@@ -67,31 +94,71 @@ export default function SoundGrid() {
     };
   }, [isAudioInitialized]);
 
-  // Resume AudioContext if suspended
-  const resumeAudioContext = async () => {
-    if (audioContext && audioContext.state === 'suspended') {
-      try {
-        await audioContext.resume();
-        console.log('🎵 AudioContext resumed');
-      } catch (error) {
-        console.error('❌ Failed to resume AudioContext:', error);
-      }
+  // Track which sounds are playing
+  useEffect(() => {
+    return subscribeToVoices(voices => {
+      setPlayingIds(new Set(voices.map(voice => voice.soundId)));
+    });
+  }, []);
+
+  // Decode sounds up front so clicks play instantly, and forget deleted ones
+  useEffect(() => {
+    pruneCache(sounds.map(sound => sound.id));
+    if (isAudioInitialized) {
+      preloadSounds(sounds);
     }
-  };
+  }, [sounds, isAudioInitialized]);
 
   // Debug: Log sounds whenever they change
   console.log('🎵 SoundGrid - Current sounds:', sounds);
   console.log('🎵 SoundGrid - Sounds count:', sounds.length);
 
+  // Sounds of the active board (ids of deleted sounds are skipped)
+  const boardSounds = useMemo(() => {
+    if (!activeBoard) return sounds;
+    const onBoard = new Set(activeBoard.soundIds);
+    return sounds.filter(sound => onBoard.has(sound.id));
+  }, [sounds, activeBoard]);
+
   // Filter and sort sounds
   const filteredAndSortedSounds = useMemo(() => {
     console.log('🔄 Filtering and sorting sounds...');
-    console.log('🔍 Input sounds:', sounds);
+    console.log('🔍 Input sounds:', boardSounds);
     console.log('🔍 Search query:', searchQuery);
     
-    let filtered = searchQuery ? searchSounds(searchQuery) : sounds;
+    const onBoard = new Set(boardSounds.map(sound => sound.id));
+    let filtered = searchQuery ? searchSounds(searchQuery).filter(sound => onBoard.has(sound.id)) : boardSounds;
+    
+    // Facets narrow the search results further
+    filtered = filtered.filter(sound =>
+      (selectedCategory === null || sound.category === selectedCategory) &&
+      selectedTags.every(tag => sound.tags?.includes(tag))
+    );
     console.log('🔍 After search filter:', filtered);
     
+    // History sections have their own order
+    if (soundView === 'recent') {
+      return filtered
+        .filter(sound => sound.lastPlayedAt)
+        .sort((a, b) => b.lastPlayedAt!.getTime() - a.lastPlayedAt!.getTime())
+        .slice(0, HISTORY_LIMIT);
+    }
+    if (soundView === 'mostPlayed') {
+      return filtered
+        .filter(sound => (sound.playCount ?? 0) > 0)
+        .sort((a, b) => (b.playCount ?? 0) - (a.playCount ?? 0))
+        .slice(0, HISTORY_LIMIT);
+    }
+    if (soundView === 'favorites') {
+      filtered = filtered.filter(sound => sound.favorite);
+    }
+    
+    // Manual layout: saved slots, sounds without one after them by date
+    if (sortBy === 'manual') {
+      const byDate = [...filtered].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+      return resolveSlots(byDate, sound => activeBoard ? activeBoard.positions[sound.id] : sound.position, showFixedSlots);
+    }
+    
     // Sort sounds
     filtered = [...filtered].sort((a, b) => {
       let aValue: string | number | Date;
@@ -110,6 +177,10 @@ export default function SoundGrid() {
           aValue = a.createdAt;
           bValue = b.createdAt;
           break;
+        case 'playCount':
+          aValue = a.playCount ?? 0;
+          bValue = b.playCount ?? 0;
+          break;
         default:
           aValue = a.title.toLowerCase();
           bValue = b.title.toLowerCase();
@@ -122,145 +193,103 @@ export default function SoundGrid() {
     
     console.log('🔍 Final filtered and sorted:', filtered);
     return filtered;
-  }, [sounds, searchQuery, searchSounds, sortBy, sortOrder]);
+  }, [boardSounds, searchQuery, searchSounds, selectedCategory, selectedTags, soundView, sortBy, sortOrder, activeBoard, showFixedSlots]);
 
-  // Handle play/pause
-  const [currentlyPlaying, setCurrentlyPlaying] = useState<Sound | null>(null);
-  const [audioElement, setAudioElement] = useState<HTMLAudioElement | null>(null);
+  // Chips for what is on this board
+  const categoryFacets = useMemo(() => collectCategories(boardSounds), [boardSounds]);
+  const tagFacets = useMemo(() => collectTags(boardSounds), [boardSounds]);
 
-  const handlePlay = async (sound: Sound) => {
-    console.log('🎵 Playing sound:', sound);
-    
-    // Stop currently playing audio
-    if (audioElement) {
-      audioElement.pause();
-      audioElement.currentTime = 0;
+  // Drop selections that no longer exist (board switched, tag removed)
+  useEffect(() => {
+    if (selectedCategory !== null && !categoryFacets.some(facet => facet.value === selectedCategory)) {
+      setSelectedCategory(null);
     }
+    setSelectedTags(prev => {
+      const next = prev.filter(tag => tagFacets.some(facet => facet.value === tag));
+      return next.length === prev.length ? prev : next;
+    });
+  }, [categoryFacets, tagFacets, selectedCategory]);
 
-    try {
-      // Resume AudioContext if suspended (important for mobile)
-      await resumeAudioContext();
-      
-      // Create mobile-optimized audio element
-      const audio = isMobileDevice ? createMobileAudioElement() : new Audio();
-      if (!isMobileDevice) {
-        audio.volume = 0.7;
-      }
-      
-      console.log('🔊 Creating audio element for:', sound.title);
-      console.log('📱 Using mobile audio:', isMobileDevice);
-      
-      audio.addEventListener('ended', () => {
-        console.log('⏹️ Audio ended:', sound.title);
-        setCurrentlyPlaying(null);
-        setAudioElement(null);
-      });
+  const handleTagToggle = (tag: string) => {
+    setSelectedTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
 
-      audio.addEventListener('error', (e) => {
-        console.error('❌ Error playing audio:', sound.title, e);
-        setCurrentlyPlaying(null);
-        setAudioElement(null);
-        setError(`Error playing audio: ${sound.title}`);
-      });
+  // Save a drag-and-drop move on the board, or on the sounds for "All sounds"
+  const handleMove = (from: number, to: number) => {
+    const positions = moveSlot(filteredAndSortedSounds, from, to, showFixedSlots);
+    const save = activeBoard ? setBoardPositions(activeBoard.id, positions) : reorderSounds(positions);
+    save.catch(error => setError(`Could not save the new order: ${error instanceof Error ? error.message : 'Unknown error'}`));
+  };
 
-      audio.addEventListener('canplaythrough', async () => {
-        console.log('✅ Audio ready to play:', sound.title);
-        
-        try {
-          if (isMobileDevice) {
-            // Use mobile-specific audio handling
-            await handleMobileAutoplay(audio);
-            console.log('▶️ Mobile audio started playing:', sound.title);
-            setCurrentlyPlaying(sound);
-            setAudioElement(audio);
-          } else {
-            // Standard audio handling for desktop
-            await audio.play();
-            console.log('▶️ Desktop audio started playing:', sound.title);
-            setCurrentlyPlaying(sound);
-            setAudioElement(audio);
-          }
-        } catch (error) {
-          console.error('❌ Error starting audio:', error);
-          
-          // Handle mobile-specific errors
-          if (isMobileDevice) {
-            const errorMessage = getMobileAudioErrorMessage(error);
-            setError(errorMessage);
-            
-            if (error instanceof Error && error.message === 'AUTOPLAY_BLOCKED') {
-              console.log('🔒 Mobile autoplay blocked - user needs to tap again');
-            }
-          } else {
-            setError(`Error playing audio: ${error instanceof Error ? error.message : 'Unknown error'}`);
-          }
-        }
-      });
+  const { drag, getHandleProps } = useSlotDrag(handleMove, filteredAndSortedSounds.length);
 
-      // Use the audioUrl from the sound object
-      if (sound.audioUrl) {
-        audio.src = sound.audioUrl;
-        console.log('🔗 Audio source set to:', sound.audioUrl);
-        
-        // Load audio
-        audio.load();
-      } else {
-        console.error('❌ No audio URL found for sound:', sound.title);
-        setError(`No audio URL found for sound: ${sound.title}`);
-        return;
-      }
-      
-    } catch (error) {
-      console.error('❌ Error in handlePlay:', error);
-      setError(`Failed to play audio: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  };
+  // Fixed slots include empty places - count only the sounds
+  const visibleSounds = filteredAndSortedSounds.filter((sound): sound is Sound => sound !== null);
 
-  const handlePause = () => {
-    if (audioElement) {
-      audioElement.pause();
-      setCurrentlyPlaying(null);
-      setAudioElement(null);
-    }
+  // Show playback errors from the buttons
+  const handlePlaybackError = (error: unknown, sound: Sound) => {
+    console.error('❌ Error playing audio:', sound.title, error);
+    setError(isMobileDevice
+      ? getMobileAudioErrorMessage(error)
+      : `Error playing audio: ${error instanceof Error ? error.message : 'Unknown error'}`);
   };
 
+  // Hotkeys work for every sound, also the ones hidden by the search
+  useSoundHotkeys(sounds, {
+    onPlay: sound => recordPlay(sound.id),
+    onError: handlePlaybackError
+  });
+
   // Handle edit sound
   const handleEdit = (sound: Sound) => {
-    // For now, just show an alert - you can implement a proper edit form later
-    const newTitle = prompt('Enter new title:', sound.title);
-    if (newTitle && newTitle.trim() !== sound.title) {
-      // Update sound logic would go here
-      console.log('Edit sound:', sound.id, 'New title:', newTitle);
-    }
+    setEditingSound(sound);
   };
 
   // Handle delete sound
   const handleDelete = (id: string) => {
-    deleteSound(id);
+    const title = sounds.find(sound => sound.id === id)?.title ?? id;
+    deleteSound(id).catch(error => {
+      setError(`Could not delete "${title}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+    });
   };
 
   // Toggle sort order
   const toggleSortOrder = () => {
-    setSortOrder(prev => prev === 'asc' ? 'desc' : 'asc');
+    updateLayout({ sortOrder: sortOrder === 'asc' ? 'desc' : 'asc' });
   };
 
+  // What to say when nothing is shown
+  const currentView = SOUND_VIEWS.find(view => view.value === soundView)!;
+  const emptyState = isFiltered
+    ? {
+        title: 'No sounds found',
+        message: searchQuery
+          ? `No sounds match "${searchQuery}". Try a different search term.`
+          : 'No sounds match the selected filters.'
+      }
+    : soundView !== 'all'
+      ? { title: currentView.label, message: currentView.empty }
+      : activeBoard
+        ? { title: 'This board is empty', message: 'Add sounds from the library with Edit, or upload a new one while this board is open.' }
+        : { title: 'No sounds yet', message: 'Get started by adding your first sound from an MP4 video file.' };
+
   // Log before render
   console.log('🎨 Rendering SoundGrid with:', {
     soundsCount: sounds.length,
-    filteredCount: filteredAndSortedSounds.length,
+    filteredCount: visibleSounds.length,
     searchQuery,
     viewMode,
     sounds: sounds.map(s => ({ id: s.id, title: s.title, audioUrl: s.audioUrl }))
   });
   
   // Debug: Log filtered sounds after they're computed
-  console.log('🎵 SoundGrid - Filtered sounds:', filteredAndSortedSounds.map(s => ({ 
+  console.log('🎵 SoundGrid - Filtered sounds:', visibleSounds.map(s => ({ 
     id: s.id, 
     title: s.title, 
     audioUrl: s.audioUrl,
     fileType: s.fileType 
   })));
-  console.log('🎵 SoundGrid - Filtered count:', filteredAndSortedSounds.length);
+  console.log('🎵 SoundGrid - Filtered count:', visibleSounds.length);
 
   return (
     <div className="space-y-4 sm:space-y-6">
@@ -268,9 +297,9 @@ export default function SoundGrid() {
       <div className="sm:hidden">
         <div className="flex items-center justify-between mb-4">
           <div>
-            <h1 className="text-2xl font-bold text-gray-900">Sound Grid</h1>
+            <h1 className="text-2xl font-bold text-gray-900">{activeBoard?.name ?? 'Sound Grid'}</h1>
             <p className="text-sm text-gray-600">
-              {filteredAndSortedSounds.length} of {sounds.length} sounds
+              {visibleSounds.length} of {boardSounds.length} sounds
             </p>
           </div>
           <button
@@ -300,33 +329,46 @@ export default function SoundGrid() {
             <div className="flex space-x-2">
               <select
                 value={sortBy}
-                onChange={(e) => setSortBy(e.target.value as 'title' | 'duration' | 'createdAt')}
+                onChange={(e) => updateLayout({ sortBy: e.target.value as SortField })}
                 className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent text-sm"
               >
                 <option value="title">Title</option>
                 <option value="duration">Duration</option>
                 <option value="createdAt">Date</option>
+                <option value="playCount">Plays</option>
+                <option value="manual">Manual</option>
               </select>
               
               <button
                 onClick={toggleSortOrder}
-                className="p-2 border border-gray-300 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                disabled={isManual}
+                className="p-2 border border-gray-300 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:opacity-50"
                 title={`Sort ${sortOrder === 'asc' ? 'ascending' : 'descending'}`}
               >
                 <Filter className={`h-4 w-4 ${sortOrder === 'desc' ? 'rotate-180' : ''}`} />
               </button>
+              
+              {isManual && (
+                <button
+                  onClick={() => updateLayout({ fixedSlots: !layout.fixedSlots })}
+                  className={`p-2 border border-gray-300 rounded-lg ${layout.fixedSlots ? 'bg-primary-500 text-white' : 'hover:bg-gray-50'}`}
+                  title="Fixed slots (keep empty places)"
+                >
+                  <LayoutGrid className="h-4 w-4" />
+                </button>
+              )}
             </div>
             
             {/* View Mode */}
             <div className="flex border border-gray-300 rounded-lg">
               <button
-                onClick={() => setViewMode('grid')}
+                onClick={() => updateLayout({ viewMode: 'grid' })}
                 className={`flex-1 py-2 text-sm font-medium ${viewMode === 'grid' ? 'bg-primary-500 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
               >
                 Grid
               </button>
               <button
-                onClick={() => setViewMode('list')}
+                onClick={() => updateLayout({ viewMode: 'list' })}
                 className={`flex-1 py-2 text-sm font-medium ${viewMode === 'list' ? 'bg-primary-500 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
               >
                 List
@@ -334,13 +376,15 @@ export default function SoundGrid() {
             </div>
             
             {/* Add Sound Button */}
-            <button
-              onClick={() => setShowUploadForm(true)}
-              className="w-full btn-primary flex items-center justify-center space-x-2"
-            >
-              <Plus className="h-4 w-4" />
-              <span>Add Sound</span>
-            </button>
+            {canEdit && (
+              <button
+                onClick={() => setShowUploadForm(true)}
+                className="w-full btn-primary flex items-center justify-center space-x-2"
+              >
+                <Plus className="h-4 w-4" />
+                <span>Add Sound</span>
+              </button>
+            )}
           </div>
         )}
       </div>
@@ -348,9 +392,9 @@ export default function SoundGrid() {
       {/* Desktop Header */}
       <div className="hidden sm:flex flex-col sm:flex-row sm:items-center justify-between space-y-4 sm:space-y-0">
         <div>
-          <h1 className="text-3xl font-bold text-gray-900">Sound Grid</h1>
+          <h1 className="text-3xl font-bold text-gray-900">{activeBoard?.name ?? 'Sound Grid'}</h1>
           <p className="text-gray-600 mt-1">
-            {filteredAndSortedSounds.length} of {sounds.length} sounds
+            {visibleSounds.length} of {boardSounds.length} sounds
           </p>
         </div>
         
@@ -370,34 +414,48 @@ export default function SoundGrid() {
           {/* Sort */}
           <select
             value={sortBy}
-            onChange={(e) => setSortBy(e.target.value as 'title' | 'duration' | 'createdAt')}
+            onChange={(e) => updateLayout({ sortBy: e.target.value as SortField })}
             className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
           >
             <option value="title">Sort by Title</option>
             <option value="duration">Sort by Duration</option>
             <option value="createdAt">Sort by Date</option>
+            <option value="playCount">Sort by Plays</option>
+            <option value="manual">Manual order</option>
           </select>
           
           {/* Sort Order */}
           <button
             onClick={toggleSortOrder}
-            className="p-2 border border-gray-300 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-primary-500"
+            disabled={isManual}
+            className="p-2 border border-gray-300 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:opacity-50"
             title={`Sort ${sortOrder === 'asc' ? 'ascending' : 'descending'}`}
           >
             <Filter className={`h-4 w-4 ${sortOrder === 'desc' ? 'rotate-180' : ''}`} />
           </button>
           
+          {/* Fixed slots */}
+          {isManual && (
+            <button
+              onClick={() => updateLayout({ fixedSlots: !layout.fixedSlots })}
+              className={`p-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 ${layout.fixedSlots ? 'bg-primary-500 text-white' : 'hover:bg-gray-50'}`}
+              title="Fixed slots (keep empty places)"
+            >
+              <LayoutGrid className="h-4 w-4" />
+            </button>
+          )}
+          
           {/* View Mode */}
           <div className="flex border border-gray-300 rounded-lg">
             <button
-              onClick={() => setViewMode('grid')}
+              onClick={() => updateLayout({ viewMode: 'grid' })}
               className={`p-2 ${viewMode === 'grid' ? 'bg-primary-500 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
               title="Grid view"
             >
               <Grid3X3 className="h-4 w-4" />
             </button>
             <button
-              onClick={() => setViewMode('list')}
+              onClick={() => updateLayout({ viewMode: 'list' })}
               className={`p-2 ${viewMode === 'grid' ? 'bg-white text-gray-600 hover:bg-gray-50' : 'bg-primary-500 text-white'}`}
               title="List view"
             >
@@ -406,16 +464,51 @@ export default function SoundGrid() {
           </div>
           
           {/* Add Sound Button */}
+          {canEdit && (
+            <button
+              onClick={() => setShowUploadForm(true)}
+              className="btn-primary flex items-center space-x-2"
+            >
+              <Plus className="h-4 w-4" />
+              <span>Add Sound</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Sections */}
+      <div className="flex border border-gray-300 rounded-lg overflow-hidden w-full sm:w-fit">
+        {SOUND_VIEWS.map(({ value, label, icon: Icon }) => (
           <button
-            onClick={() => setShowUploadForm(true)}
-            className="btn-primary flex items-center space-x-2"
+            key={value}
+            onClick={() => setSoundView(value)}
+            className={`flex-1 sm:flex-none flex items-center justify-center space-x-1.5 px-3 py-1.5 text-sm font-medium ${
+              soundView === value ? 'bg-primary-500 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'
+            }`}
           >
-            <Plus className="h-4 w-4" />
-            <span>Add Sound</span>
+            <Icon className="h-4 w-4" />
+            <span className="hidden sm:inline">{label}</span>
           </button>
-        </div>
+        ))}
       </div>
 
+      {/* Filters */}
+      <FilterChips
+        categories={categoryFacets}
+        tags={tagFacets}
+        selectedCategory={selectedCategory}
+        selectedTags={selectedTags}
+        onCategoryChange={setSelectedCategory}
+        onTagToggle={handleTagToggle}
+        onClear={() => {
+          setSelectedCategory(null);
+          setSelectedTags([]);
+        }}
+      />
+
+      {/* Playback */}
+      <PlaybackControls playingCount={playingIds.size} />
+
       {/* Device Info Display */}
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 mb-4">
         <div className="flex items-center space-x-2">
@@ -447,33 +540,30 @@ export default function SoundGrid() {
       {/* Sounds Grid/List */}
       {(() => {
         console.log('🎯 Render condition check:', {
-          filteredLength: filteredAndSortedSounds.length,
+          filteredLength: visibleSounds.length,
           soundsLength: sounds.length,
           searchQuery,
-          willShowEmpty: filteredAndSortedSounds.length === 0
+          willShowEmpty: visibleSounds.length === 0
         });
         
-        if (filteredAndSortedSounds.length === 0) {
+        if (visibleSounds.length === 0) {
           return (
             <div className="text-center py-8 sm:py-12">
               <div className="text-gray-400 mb-4">
                 <Grid3X3 className="h-12 w-12 sm:h-16 sm:w-16 mx-auto" />
               </div>
               <h3 className="text-lg font-medium text-gray-900 mb-2">
-                {searchQuery ? 'No sounds found' : 'No sounds yet'}
+                {emptyState.title}
               </h3>
               <p className="text-gray-600 mb-6 px-4">
-                {searchQuery 
-                  ? `No sounds match "${searchQuery}". Try a different search term.`
-                  : 'Get started by adding your first sound from an MP4 video file.'
-                }
+                {emptyState.message}
               </p>
-              {!searchQuery && (
+              {canEdit && !isFiltered && soundView === 'all' && (
                 <button
                   onClick={() => setShowUploadForm(true)}
                   className="btn-primary"
                 >
-                  Add Your First Sound
+                  {activeBoard ? 'Add Sound' : 'Add Your First Sound'}
                 </button>
               )}
             </div>
@@ -482,21 +572,61 @@ export default function SoundGrid() {
           console.log('🎵 Rendering sound grid with sounds:', filteredAndSortedSounds);
           return (
             <div className={
-              viewMode === 'grid' 
-                ? 'grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-3 sm:gap-4' 
-                : 'space-y-3'
+              showFixedSlots
+                // Column counts divide 20, so every page of slots is a full rectangle (2x10 on mobile)
+                ? 'grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-5 gap-3 sm:gap-4'
+                : viewMode === 'grid' 
+                  ? 'grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-3 sm:gap-4' 
+                  : 'space-y-3'
             }>
-              {filteredAndSortedSounds.map((sound) => (
-                <SoundButton
-                  key={sound.id}
-                  sound={sound}
-                  onEdit={handleEdit}
-                  onDelete={handleDelete}
-                  isPlaying={currentlyPlaying?.id === sound.id}
-                  onPlay={handlePlay}
-                  onPause={handlePause}
-                />
-              ))}
+              {filteredAndSortedSounds.map((sound, slot) => {
+                const isDropTarget = drag !== null && drag.over === slot && drag.from !== slot;
+                
+                if (!sound) {
+                  return (
+                    <div
+                      key={`slot-${slot}`}
+                      data-slot={slot}
+                      className={`h-20 sm:h-24 rounded-xl border-2 border-dashed ${isDropTarget ? 'border-primary-500 bg-primary-50' : 'border-gray-200'}`}
+                    />
+                  );
+                }
+                
+                if (!canReorder) {
+                  return (
+                    <SoundButton
+                      key={sound.id}
+                      sound={sound}
+                      onEdit={handleEdit}
+                      onDelete={handleDelete}
+                      onError={handlePlaybackError}
+                    />
+                  );
+                }
+                
+                return (
+                  <div
+                    key={sound.id}
+                    data-slot={slot}
+                    className={`relative rounded-xl ${drag?.from === slot ? 'opacity-50' : ''} ${isDropTarget ? 'ring-4 ring-primary-400' : ''}`}
+                  >
+                    <SoundButton
+                      sound={sound}
+                      onEdit={handleEdit}
+                      onDelete={handleDelete}
+                      onError={handlePlaybackError}
+                    />
+                    <button
+                      {...getHandleProps(slot)}
+                      className="absolute bottom-1 left-1 sm:bottom-2 sm:left-2 p-1 rounded bg-black bg-opacity-20 text-white cursor-grab active:cursor-grabbing touch-none focus:outline-none focus:ring-2 focus:ring-white"
+                      aria-label={`Move ${sound.title} (drag or use arrow keys)`}
+                      title="Drag to move"
+                    >
+                      <GripVertical size={14} />
+                    </button>
+                  </div>
+                );
+              })}
             </div>
           );
         }
@@ -506,6 +636,11 @@ export default function SoundGrid() {
       {showUploadForm && (
         <UploadForm onClose={() => setShowUploadForm(false)} />
       )}
+
+      {/* Edit Sound Dialog */}
+      {editingSound && (
+        <EditSoundDialog sound={editingSound} onClose={() => setEditingSound(null)} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+
+interface TagEditorProps {
+  id?: string;
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  suggestions?: string[];
+  maxTags?: number;
+}
+
+// Tags as removable chips. Enter or comma adds the typed tag, Backspace in an
+// empty field removes the last one. Tags already used on the board are suggested.
+export default function TagEditor({ id, tags, onChange, suggestions = [], maxTags = 20 }: TagEditorProps) {
+  const [input, setInput] = useState('');
+  const listId = id ? `${id}-suggestions` : undefined;
+
+  // Add a tag unless it is empty or already there (case-insensitive)
+  const addTag = (value: string) => {
+    const tag = value.trim();
+    setInput('');
+    if (!tag || tags.length >= maxTags || tags.some(existing => existing.toLowerCase() === tag.toLowerCase())) return;
+    onChange([...tags, tag]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(input);
+    } else if (e.key === 'Backspace' && !input && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  // Pasting "a, b, c" adds all of them
+  const handleChange = (value: string) => {
+    if (!value.includes(',')) {
+      setInput(value);
+      return;
+    }
+    const parts = value.split(',');
+    const added = [...tags];
+    parts.slice(0, -1).map(part => part.trim()).filter(Boolean).forEach(tag => {
+      if (added.length < maxTags && !added.some(existing => existing.toLowerCase() === tag.toLowerCase())) {
+        added.push(tag);
+      }
+    });
+    onChange(added);
+    setInput(parts[parts.length - 1]);
+  };
+
+  return (
+    <div className="input-field flex flex-wrap items-center gap-1.5 min-h-[2.5rem]">
+      {tags.map(tag => (
+        <span key={tag} className="flex items-center space-x-1 px-2 py-0.5 bg-primary-100 text-primary-700 rounded-full text-sm">
+          <span>{tag}</span>
+          <button
+            type="button"
+            onClick={() => onChange(tags.filter(existing => existing !== tag))}
+            className="text-primary-500 hover:text-primary-700"
+            aria-label={`Remove tag ${tag}`}
+          >
+            <X size={12} />
+          </button>
+        </span>
+      ))}
+      <input
+        id={id}
+        type="text"
+        value={input}
+        onChange={(e) => handleChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => addTag(input)}
+        list={listId}
+        className="flex-1 min-w-[6rem] outline-none bg-transparent text-sm"
+        placeholder={tags.length === 0 ? 'meme, intro, reaction' : ''}
+        disabled={tags.length >= maxTags}
+      />
+      {listId && (
+        <datalist id={listId}>
+          {suggestions.filter(tag => !tags.includes(tag)).map(tag => (
+            <option key={tag} value={tag} />
+          ))}
+        </datalist>
+      )}
+    </div>
+  );
+}
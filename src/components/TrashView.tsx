@@ -0,0 +1,166 @@
+import { useEffect, useState } from 'react';
+import { Trash2, RotateCcw, AlertCircle } from 'lucide-react';
+import { useAudio } from '../contexts/AudioContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useBoards } from '../contexts/BoardContext';
+import { fetchTrash, purgeTrashedSound, emptyTrash } from '../utils/soundApi';
+import { TrashedSound } from '../types';
+
+const formatDate = (date: Date) => date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+// Deleted sounds waiting for the server's retention sweep
+export default function TrashView() {
+  const { sounds, restoreSounds } = useAudio();
+  const { reloadBoards } = useBoards();
+  const { can } = useAuth();
+  const [trashed, setTrashed] = useState<TrashedSound[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const describe = (error: unknown) => error instanceof Error ? error.message : 'Unknown error';
+
+  const load = async () => {
+    try {
+      const trash = await fetchTrash();
+      setTrashed(trash.sounds);
+      setRetentionDays(trash.retentionDays);
+    } catch (error) {
+      setError(`Could not load the trash: ${describe(error)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Reload whenever the library changes - a delete elsewhere adds to the trash
+  useEffect(() => {
+    load();
+  }, [sounds.length]);
+
+  const handleRestore = async (sound: TrashedSound) => {
+    try {
+      setBusyId(sound.id);
+      setError(null);
+      const result = await restoreSounds([sound.id]);
+      await reloadBoards();
+      if (result.failed.length > 0) {
+        setError(`Could not restore "${sound.title}": ${result.failed[0].reason}`);
+      }
+      await load();
+    } catch (error) {
+      setError(`Could not restore "${sound.title}": ${describe(error)}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (sound: TrashedSound) => {
+    if (!window.confirm(`Delete "${sound.title}" for good? This action cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      setBusyId(sound.id);
+      setError(null);
+      await purgeTrashedSound(sound.id);
+      setTrashed(current => current.filter(item => item.id !== sound.id));
+    } catch (error) {
+      setError(`Could not delete "${sound.title}": ${describe(error)}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleEmpty = async () => {
+    if (!window.confirm(`Delete all ${trashed.length} sounds in the trash for good? This action cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+      const result = await emptyTrash();
+      if (result.failed.length > 0) {
+        setError(`Could not delete ${result.failed.length} sounds: ${result.failed.map(item => item.title).join(', ')}`);
+      }
+      await load();
+    } catch (error) {
+      setError(`Could not empty the trash: ${describe(error)}`);
+    }
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      {/* Trash Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Trash</h2>
+          <p className="text-gray-600 mt-1 text-sm sm:text-base">
+            {retentionDays === null
+              ? 'Deleted sounds can be restored until they are purged'
+              : `Deleted sounds are purged for good after ${retentionDays} ${retentionDays === 1 ? 'day' : 'days'}`}
+          </p>
+        </div>
+        {can('admin') && (
+          <button
+            onClick={handleEmpty}
+            disabled={trashed.length === 0}
+            className="btn-danger flex-shrink-0 disabled:opacity-50 disabled:cursor-not-allowed text-sm sm:text-base"
+          >
+            Empty Trash
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span className="flex-1">{error}</span>
+          <button onClick={() => setError(null)} className="px-2 text-red-500 hover:text-red-700">
+            ✕
+          </button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-gray-500 text-sm">Loading trash...</p>
+      ) : trashed.length === 0 ? (
+        <div className="card text-center py-12">
+          <Trash2 className="h-10 w-10 text-gray-300 mx-auto mb-3" />
+          <p className="text-gray-600">The trash is empty</p>
+        </div>
+      ) : (
+        <ul className="card divide-y divide-gray-200 p-0">
+          {trashed.map(sound => (
+            <li key={sound.id} className="flex flex-col sm:flex-row sm:items-center gap-3 p-4">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-900 truncate">{sound.title}</p>
+                <p className="text-xs sm:text-sm text-gray-500">
+                  Deleted {formatDate(sound.deletedAt)} · purged {formatDate(sound.expiresAt)}
+                </p>
+              </div>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => handleRestore(sound)}
+                  disabled={busyId !== null}
+                  className="btn-secondary flex items-center space-x-1 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+                >
+                  <RotateCcw className="h-4 w-4" />
+                  <span>Restore</span>
+                </button>
+                <button
+                  onClick={() => handlePurge(sound)}
+                  disabled={busyId !== null}
+                  className="btn-danger flex items-center space-x-1 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span>Delete Forever</span>
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
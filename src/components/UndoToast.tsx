@@ -0,0 +1,66 @@
+import { useEffect, useState } from 'react';
+import { Undo2, X } from 'lucide-react';
+import { useAudio } from '../contexts/AudioContext';
+import { useBoards } from '../contexts/BoardContext';
+
+// How long the undo offer stays on screen
+const UNDO_TIMEOUT_MS = 8000;
+
+// "Deleted ... - Undo" after a delete; deleted sounds stay in the trash either way
+export default function UndoToast() {
+  const { lastDeleted, restoreSounds, dismissLastDeleted } = useAudio();
+  const { reloadBoards } = useBoards();
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Every new delete restarts the timer
+  useEffect(() => {
+    setError(null);
+    if (!lastDeleted) return;
+
+    const timeout = setTimeout(dismissLastDeleted, UNDO_TIMEOUT_MS);
+    return () => clearTimeout(timeout);
+  }, [lastDeleted]);
+
+  if (!lastDeleted) return null;
+
+  const handleUndo = async () => {
+    try {
+      setIsRestoring(true);
+      const result = await restoreSounds(lastDeleted.ids);
+      await reloadBoards(); // Restored sounds are back on their boards
+      if (result.failed.length > 0) {
+        setError(`Could not restore ${result.failed.length} sounds - see Trash`);
+        return;
+      }
+      dismissLastDeleted();
+    } catch (error) {
+      setError(`Undo failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-md">
+      <div className="flex items-center space-x-3 px-4 py-3 bg-gray-900 text-white rounded-xl shadow-2xl" role="status">
+        <span className="flex-1 text-sm truncate">{error ?? lastDeleted.label}</span>
+        <button
+          onClick={handleUndo}
+          disabled={isRestoring}
+          className="flex items-center space-x-1 px-2 py-1 text-sm font-medium text-primary-300 hover:text-primary-200 disabled:opacity-50"
+        >
+          <Undo2 className="h-4 w-4" />
+          <span>{isRestoring ? 'Restoring...' : 'Undo'}</span>
+        </button>
+        <button
+          onClick={dismissLastDeleted}
+          className="text-gray-400 hover:text-gray-200 transition-colors p-1"
+          aria-label="Dismiss"
+        >
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+  );
+}
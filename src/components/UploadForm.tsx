@@ -1,38 +1,73 @@
-import { useState, useRef, useCallback } from 'react';
+import { useState, useRef, useCallback, useEffect } from 'react';
 import { Upload, Music, Scissors, X, CheckCircle, AlertCircle } from 'lucide-react';
 import { useAudio } from '../contexts/AudioContext';
+import { useBoards } from '../contexts/BoardContext';
 import { 
   validateFileType, 
   validateFileSize, 
   getAudioDuration,
-  formatTime,
+  formatTimePrecise,
   previewTrimmedAudio,
-  createTrimmedAudio
+  createTrimmedAudio,
+  trimAudio,
+  shouldProcessOnServer,
+  decodeAudioFile,
+  computePeaks,
+  encodeAudioBuffer,
+  OUTPUT_FORMATS,
+  OUTPUT_BITRATES,
+  DEFAULT_OUTPUT_SETTINGS
 } from '../utils/audioUtils';
-import { UploadFormData, TrimSettings, AudioProcessingState } from '../types';
+import { hasClipEffects } from '../utils/audioEffects';
+import { uploadTrimmedAudio, processOnServer, UploadError } from '../utils/soundApi';
+import { Sound, UploadFormData, TrimSettings, AudioProcessingState, OutputFormat, OutputSettings, WaveformPeaks } from '../types';
+import WaveformEditor from './WaveformEditor';
+import ClipEffectsPanel from './ClipEffectsPanel';
+import { useAudioPlayer } from '../hooks/useAudioPlayer';
 
 interface UploadFormProps {
   onClose: () => void;
 }
 
 export default function UploadForm({ onClose }: UploadFormProps) {
-  const { addSound } = useAudio();
+  const { addSound, addCreatedSound } = useAudio();
+  const { activeBoard, setBoardSounds } = useBoards();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [formData, setFormData] = useState<UploadFormData>({
     file: null,
     title: '',
-    trimSettings: { startTime: 0, endTime: 0 }
+    trimSettings: { startTime: 0, endTime: 0 },
+    outputSettings: DEFAULT_OUTPUT_SETTINGS
   });
   const [processingState, setProcessingState] = useState<AudioProcessingState>({
     isProcessing: false,
     progress: 0,
     currentStep: '',
     error: null,
-    previewAudio: null,
-    isPreviewPlaying: false
+    previewAudio: null
   });
   const [dragActive, setDragActive] = useState(false);
   const [audioDuration, setAudioDuration] = useState(0);
+  const [sourceBuffer, setSourceBuffer] = useState<AudioBuffer | null>(null);
+  const [peaks, setPeaks] = useState<WaveformPeaks | null>(null);
+  const waveformFileRef = useRef<File | null>(null);
+
+  // Preview goes through the same player as the board, but around the master volume
+  // and limiter - the saved clip gets neither, so this is what will be saved
+  const previewPlayer = useAudioPlayer('upload-preview', async () => {
+    if (!processingState.previewAudio) {
+      throw new Error('No preview rendered');
+    }
+    return processingState.previewAudio.buffer;
+  }, { direct: true });
+  const { player } = previewPlayer;
+
+  // Stop the preview
+  const stopPreviewPlayback = useCallback(() => {
+    player.stop();
+  }, [player]);
+
+  useEffect(() => stopPreviewPlayback, [stopPreviewPlayback]);
 
   // Handle file selection
   const handleFileSelect = useCallback(async (file: File) => {
@@ -55,6 +90,24 @@ export default function UploadForm({ onClose }: UploadFormProps) {
         trimSettings: { startTime: 0, endTime: duration }
       }));
 
+      // Decode once for the waveform and previews - skipped for files too heavy for this device
+      stopPreviewPlayback();
+      setProcessingState(prev => ({ ...prev, previewAudio: null }));
+      setSourceBuffer(null);
+      setPeaks(null);
+      waveformFileRef.current = file;
+      if (!shouldProcessOnServer(file)) {
+        decodeAudioFile(file)
+          .then(audioBuffer => {
+            // Ignore results for a file that was replaced meanwhile
+            if (waveformFileRef.current === file) {
+              setSourceBuffer(audioBuffer);
+              setPeaks(computePeaks(audioBuffer));
+            }
+          })
+          .catch(error => console.warn('⚠️ Could not decode audio for waveform:', error));
+      }
+
       // Auto-generate title from filename
       const title = file.name.replace(/\.[^/.]+$/, '');
       setFormData(prev => ({ ...prev, title }));
@@ -64,7 +117,7 @@ export default function UploadForm({ onClose }: UploadFormProps) {
         error: error instanceof Error ? error.message : 'Failed to process file'
       }));
     }
-  }, []);
+  }, [stopPreviewPlayback]);
 
   // Handle drag and drop
   const handleDrag = useCallback((e: React.DragEvent) => {
@@ -94,6 +147,54 @@ export default function UploadForm({ onClose }: UploadFormProps) {
     }
   };
 
+  // Upload the original and let the server trim it. Returns null when the server
+  // cannot do it (no ffmpeg there, or unreachable), so the caller falls back to
+  // processing in the browser. Any other failure is the user's to see.
+  const processFileOnServer = async (file: File): Promise<Sound | null> => {
+    let record;
+    try {
+      setProcessingState(prev => ({
+        ...prev,
+        progress: 0,
+        currentStep: 'Uploading video for server processing...'
+      }));
+
+      record = await processOnServer(file, formData.title.trim(), formData.trimSettings, formData.outputSettings, (percent) => {
+        setProcessingState(prev => ({
+          ...prev,
+          progress: Math.round(percent * 0.7),
+          currentStep: percent < 100 ? 'Uploading video for server processing...' : 'Processing on server...'
+        }));
+      });
+    } catch (error) {
+      if (!(error instanceof UploadError) || (error.status !== 503 && error.status !== 0)) {
+        throw error;
+      }
+      console.warn('⚠️ Server-side processing unavailable, processing in browser:', error);
+      setProcessingState(prev => ({
+        ...prev,
+        progress: 0,
+        currentStep: 'Processing in browser...'
+      }));
+      return null;
+    }
+
+    // The server has created (and announced) the record already
+    addCreatedSound(record);
+    return record;
+  };
+
+  // New sounds also land on the board that is open
+  const addToActiveBoard = async (sound: Sound) => {
+    if (!activeBoard) return;
+    try {
+      await setBoardSounds(activeBoard.id, [...activeBoard.soundIds, sound.id]);
+    } catch (error) {
+      // The sound is saved in the library either way
+      console.error('❌ Could not add sound to board:', error);
+    }
+  };
+
   // Handle form submission
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -107,135 +208,155 @@ export default function UploadForm({ onClose }: UploadFormProps) {
     }
 
     try {
-      // Clean up preview audio if exists
-      if (processingState.previewAudio) {
-        URL.revokeObjectURL(processingState.previewAudio);
-      }
-      
-      // Clean up sessionStorage
-      sessionStorage.removeItem('audio-preview');
+      // A rendered preview is saved as-is, so the clip sounds exactly like what was heard.
+      // 'copy' (only offered without effects) cuts the original stream instead.
+      const previewClip = processingState.previewAudio;
+      const keepsOriginalStream = formData.outputSettings.format === 'copy';
+      stopPreviewPlayback();
 
       setProcessingState({
         isProcessing: true,
         progress: 0,
         currentStep: 'Processing audio file...',
         error: null,
-        previewAudio: null,
-        isPreviewPlaying: false
+        previewAudio: null
       });
 
-      // Step 1: Create trimmed audio
-      setProcessingState(prev => ({
-        ...prev,
-        progress: 50,
-        currentStep: 'Trimming audio...'
-      }));
-      
-      // Create trimmed audio using Web Audio API
-      const trimmedAudioBlob = await createTrimmedAudio(formData.file, formData.trimSettings);
-      
-      // Calculate final duration
-      const finalDuration = formData.trimSettings.endTime - formData.trimSettings.startTime;
-      
-      setProcessingState(prev => ({
-        ...prev,
-        progress: 75,
-        currentStep: 'Creating sound...'
-      }));
-      
-      // Convert blob to base64 for server upload
-      const reader = new FileReader();
-      
-      reader.onerror = () => {
-        console.error('❌ FileReader error');
+      // Heavy files on weak devices: let the server run ffmpeg instead
+      if ((!previewClip || keepsOriginalStream) && shouldProcessOnServer(formData.file)) {
+        const created = await processFileOnServer(formData.file);
+        if (created) {
+          await addToActiveBoard(created);
+          setProcessingState(prev => ({
+            ...prev,
+            progress: 100,
+            currentStep: 'Sound created!'
+          }));
+          setTimeout(() => {
+            onClose();
+          }, 1500);
+          return;
+        }
+      }
+
+      let trimmedAudioBlob: Blob;
+      // Silence trimming can make the rendered clip shorter than the selection
+      let finalDuration = formData.trimSettings.endTime - formData.trimSettings.startTime;
+      if (!keepsOriginalStream && (previewClip || hasClipEffects(formData.trimSettings))) {
+        // Effects are rendered with Web Audio, so the saved clip matches the preview
+        setProcessingState(prev => ({
+          ...prev,
+          progress: 30,
+          currentStep: 'Encoding audio...'
+        }));
+        const rendered = previewClip ?? await previewTrimmedAudio(sourceBuffer ?? formData.file, formData.trimSettings);
+        trimmedAudioBlob = await encodeAudioBuffer(rendered.buffer, formData.outputSettings);
+        finalDuration = rendered.buffer.duration;
+      } else {
+        // Step 1: Cut the clip out of the video with ffmpeg.wasm (lossless when possible), progress 0-55%
         setProcessingState(prev => ({
           ...prev,
-          error: 'Failed to read audio file',
-          isProcessing: false
+          progress: 5,
+          currentStep: 'Loading audio engine...'
         }));
-      };
       
-      reader.onload = async () => {
         try {
-          const base64Data = reader.result as string;
-          
-          // Save trimmed audio to server
-          const response = await fetch('/api/sounds/save-trimmed', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              audioData: base64Data,
-              filename: `${formData.title.trim()}_trimmed.wav`,
-              title: formData.title.trim()
-            })
-          });
-          
-          if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`Server error: ${response.status} - ${errorText}`);
-          }
-          
-          const result = await response.json();
-          console.log('✅ Audio saved to server:', result);
-          
-          // Add sound with server file info
-          addSound({
-            title: formData.title.trim(),
-            filename: result.filename, // Server filename
-            duration: finalDuration,
-            fileType: 'audio/wav', // Trimmed audio is WAV
-            fileSize: result.size, // Server file size
-            audioUrl: result.filePath // Server file path
+          trimmedAudioBlob = await trimAudio(formData.file, formData.trimSettings, formData.outputSettings, (percent) => {
+            setProcessingState(prev => ({
+              ...prev,
+              progress: 5 + Math.round(percent * 0.5),
+              currentStep: 'Trimming audio...'
+            }));
           });
-          
-          console.log('🎵 Sound added to context with:', {
-            title: formData.title.trim(),
-            filename: result.filename,
-            duration: finalDuration,
-            audioUrl: result.filePath
-          });
-          
-          // Success - close form
-          setTimeout(() => {
-            onClose();
-          }, 1500);
-          
         } catch (error) {
-          console.error('❌ Error saving to server:', error);
+          // ffmpeg.wasm unavailable - fall back to decoding with the Web Audio API
+          console.warn('⚠️ ffmpeg trim failed, falling back to Web Audio:', error);
           setProcessingState(prev => ({
             ...prev,
-            error: error instanceof Error ? error.message : 'Failed to save audio to server',
-            isProcessing: false
+            progress: 30,
+            currentStep: 'Trimming audio...'
           }));
+          trimmedAudioBlob = await createTrimmedAudio(formData.file, formData.trimSettings, formData.outputSettings);
         }
-      };
+      }
       
-      reader.readAsDataURL(trimmedAudioBlob);
+      setProcessingState(prev => ({
+        ...prev,
+        progress: 60,
+        currentStep: 'Uploading audio...'
+      }));
+      
+      // Upload the trimmed clip as binary multipart - progress maps to 60-95%
+      const result = await uploadTrimmedAudio(trimmedAudioBlob, formData.title.trim(), (percent) => {
+        setProcessingState(prev => ({
+          ...prev,
+          progress: 60 + Math.round(percent * 0.35)
+        }));
+      });
+      console.log('✅ Audio saved to server:', result);
+      
+      setProcessingState(prev => ({
+        ...prev,
+        progress: 95,
+        currentStep: 'Creating sound...'
+      }));
+      
+      // Create the sound record on the server (stable id, title, duration)
+      const created = await addSound({
+        title: formData.title.trim(),
+        filename: result.filename, // Server filename
+        duration: finalDuration,
+        fileType: trimmedAudioBlob.type.split(';')[0] || 'audio/wav',
+        fileSize: result.size, // Server file size
+        audioUrl: result.filePath // Server file path
+      });
+      
+      console.log('🎵 Sound added to context with:', created);
+      await addToActiveBoard(created);
 
       setProcessingState(prev => ({
         ...prev,
         progress: 100,
-        currentStep: 'Creating sound...'
+        currentStep: 'Sound created!'
       }));
+      
+      // Success - close form
+      setTimeout(() => {
+        onClose();
+      }, 1500);
 
     } catch (error) {
       setProcessingState(prev => ({
         ...prev,
-        error: error instanceof Error ? error.message : 'Failed to process audio'
+        error: error instanceof Error ? error.message : 'Failed to process audio',
+        isProcessing: false
       }));
     }
   };
 
   // Handle trim settings change
-  const handleTrimChange = (field: keyof TrimSettings, value: number) => {
+  const handleTrimChange = (trimSettings: TrimSettings) => {
     setFormData(prev => ({
       ...prev,
-      trimSettings: {
-        ...prev.trimSettings,
-        [field]: Math.max(0, Math.min(audioDuration, value))
-      }
+      trimSettings,
+      // Effects re-render the audio, so there is no original stream to keep
+      outputSettings: prev.outputSettings.format === 'copy' && hasClipEffects(trimSettings)
+        ? { ...prev.outputSettings, format: DEFAULT_OUTPUT_SETTINGS.format }
+        : prev.outputSettings
+    }));
+    
+    // The rendered preview no longer matches the selection
+    if (processingState.previewAudio) {
+      stopPreviewPlayback();
+      setProcessingState(prev => ({ ...prev, previewAudio: null }));
+    }
+  };
+
+  // Handle output format / quality changes
+  const handleOutputChange = <K extends keyof OutputSettings>(field: K, value: OutputSettings[K]) => {
+    setFormData(prev => ({
+      ...prev,
+      outputSettings: { ...prev.outputSettings, [field]: value }
     }));
   };
 
@@ -256,12 +377,13 @@ export default function UploadForm({ onClose }: UploadFormProps) {
         error: null
       }));
 
-      // Create preview directly from file (no FFmpeg conversion needed)
-      const previewUrl = await previewTrimmedAudio(formData.file, formData.trimSettings);
+      // Render the exact clip from the decoded buffer (decodes the file when there is none yet)
+      stopPreviewPlayback();
+      const previewClip = await previewTrimmedAudio(sourceBuffer ?? formData.file, formData.trimSettings);
       
       setProcessingState(prev => ({
         ...prev,
-        previewAudio: previewUrl,
+        previewAudio: previewClip,
         currentStep: 'Preview ready! Click play to listen.'
       }));
 
@@ -275,75 +397,43 @@ export default function UploadForm({ onClose }: UploadFormProps) {
 
   // Play preview audio
   const handlePlayPreview = () => {
-    if (processingState.previewAudio) {
-      const audio = new Audio(processingState.previewAudio);
-      
-      // Get trim info from sessionStorage
-      const previewDataStr = sessionStorage.getItem('audio-preview');
-      if (previewDataStr) {
-        try {
-          const previewData = JSON.parse(previewDataStr);
-          
-          // Set start time to trim start
-          audio.currentTime = previewData.startTime;
-          
-          // Add event listener to stop at trim end
-          const timeUpdateHandler = () => {
-            if (audio.currentTime >= previewData.endTime) {
-              audio.pause();
-              audio.currentTime = previewData.startTime;
-              setProcessingState(prev => ({ ...prev, isPreviewPlaying: false }));
-              audio.removeEventListener('timeupdate', timeUpdateHandler);
-            }
-          };
-          
-          audio.addEventListener('timeupdate', timeUpdateHandler);
-        } catch (error) {
-          console.error('Error parsing preview data:', error);
-        }
-      }
-      
-      audio.addEventListener('ended', () => {
-        setProcessingState(prev => ({ ...prev, isPreviewPlaying: false }));
-      });
-      
-      audio.addEventListener('play', () => {
-        setProcessingState(prev => ({ ...prev, isPreviewPlaying: true }));
-      });
-      
-      audio.play();
-    }
+    if (!processingState.previewAudio) return;
+    
+    player.stop();
+    player.play().catch(error => {
+      setProcessingState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to play preview'
+      }));
+    });
   };
 
   // Stop preview audio
   const handleStopPreview = () => {
-    setProcessingState(prev => ({ ...prev, isPreviewPlaying: false }));
+    stopPreviewPlayback();
   };
 
   // Reset form
   const resetForm = () => {
-    // Clean up preview audio URL
-    if (processingState.previewAudio) {
-      URL.revokeObjectURL(processingState.previewAudio);
-    }
-    
-    // Clean up sessionStorage
-    sessionStorage.removeItem('audio-preview');
+    stopPreviewPlayback();
     
     setFormData({
       file: null,
       title: '',
-      trimSettings: { startTime: 0, endTime: 0 }
+      trimSettings: { startTime: 0, endTime: 0 },
+      outputSettings: DEFAULT_OUTPUT_SETTINGS
     });
     setProcessingState({
       isProcessing: false,
       progress: 0,
       currentStep: '',
       error: null,
-      previewAudio: null,
-      isPreviewPlaying: false
+      previewAudio: null
     });
     setAudioDuration(0);
+    setSourceBuffer(null);
+    setPeaks(null);
+    waveformFileRef.current = null;
   };
 
   return (
@@ -440,49 +530,67 @@ export default function UploadForm({ onClose }: UploadFormProps) {
                 <h3 className="text-base sm:text-lg font-medium text-gray-900">Trim Audio</h3>
               </div>
               
+              <WaveformEditor
+                peaks={peaks}
+                duration={audioDuration}
+                trimSettings={formData.trimSettings}
+                onChange={handleTrimChange}
+                playheadTime={previewPlayer.isPlaying && processingState.previewAudio
+                  // Silence trimming removed the start of the selection from the rendered clip
+                  ? formData.trimSettings.startTime + processingState.previewAudio.startOffset + previewPlayer.currentTime
+                  : null}
+                disabled={processingState.isProcessing}
+              />
+              
+              <div className="bg-gray-50 rounded-lg p-3">
+                <p className="text-sm text-gray-600">
+                  Duration: {formatTimePrecise(formData.trimSettings.endTime - formData.trimSettings.startTime)}
+                </p>
+              </div>
+
+              <ClipEffectsPanel
+                trimSettings={formData.trimSettings}
+                onChange={handleTrimChange}
+                disabled={processingState.isProcessing}
+              />
+
+              {/* Output Format */}
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Start Time
+                  <label htmlFor="output-format" className="block text-sm font-medium text-gray-700 mb-2">
+                    Output Format
                   </label>
-                  <input
-                    type="range"
-                    min="0"
-                    max={audioDuration}
-                    step="0.1"
-                    value={formData.trimSettings.startTime}
-                    onChange={(e) => handleTrimChange('startTime', parseFloat(e.target.value))}
-                    className="w-full touch-manipulation"
-                  />
-                  <p className="text-sm text-gray-600 mt-1">
-                    {formatTime(formData.trimSettings.startTime)}
-                  </p>
+                  <select
+                    id="output-format"
+                    value={formData.outputSettings.format}
+                    onChange={(e) => handleOutputChange('format', e.target.value as OutputFormat)}
+                    className="input-field"
+                  >
+                    {(Object.keys(OUTPUT_FORMATS) as OutputFormat[])
+                      .filter(format => format !== 'copy' || !hasClipEffects(formData.trimSettings))
+                      .map(format => (
+                        <option key={format} value={format}>{OUTPUT_FORMATS[format].label}</option>
+                      ))}
+                  </select>
                 </div>
-                
+
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    End Time
+                  <label htmlFor="output-bitrate" className="block text-sm font-medium text-gray-700 mb-2">
+                    Quality
                   </label>
-                  <input
-                    type="range"
-                    min="0"
-                    max={audioDuration}
-                    step="0.1"
-                    value={formData.trimSettings.endTime}
-                    onChange={(e) => handleTrimChange('endTime', parseFloat(e.target.value))}
-                    className="w-full touch-manipulation"
-                  />
-                  <p className="text-sm text-gray-600 mt-1">
-                    {formatTime(formData.trimSettings.endTime)}
-                  </p>
+                  <select
+                    id="output-bitrate"
+                    value={formData.outputSettings.bitrate}
+                    onChange={(e) => handleOutputChange('bitrate', parseInt(e.target.value, 10))}
+                    disabled={!OUTPUT_FORMATS[formData.outputSettings.format].hasBitrate}
+                    className="input-field disabled:opacity-50"
+                  >
+                    {OUTPUT_BITRATES.map(bitrate => (
+                      <option key={bitrate} value={bitrate}>{bitrate} kbps</option>
+                    ))}
+                  </select>
                 </div>
               </div>
-              
-              <div className="bg-gray-50 rounded-lg p-3">
-                <p className="text-sm text-gray-600">
-                  Duration: {formatTime(formData.trimSettings.endTime - formData.trimSettings.startTime)}
-                </p>
-              </div>
 
               {/* Preview Controls */}
               <div className="flex flex-col sm:flex-row items-stretch sm:items-center space-y-2 sm:space-y-0 sm:space-x-3">
@@ -501,11 +609,11 @@ export default function UploadForm({ onClose }: UploadFormProps) {
                     <button
                       type="button"
                       onClick={handlePlayPreview}
-                      disabled={processingState.isPreviewPlaying}
+                      disabled={previewPlayer.isPlaying}
                       className="btn-primary flex items-center justify-center space-x-2 disabled:opacity-50 flex-1 sm:flex-none"
                     >
                       <Music className="h-4 w-4" />
-                      <span>{processingState.isPreviewPlaying ? 'Playing...' : 'Play Preview'}</span>
+                      <span>{previewPlayer.isPlaying ? 'Playing...' : 'Play Preview'}</span>
                     </button>
 
                     <button
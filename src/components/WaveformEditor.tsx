@@ -0,0 +1,356 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { ZoomIn, ZoomOut, Maximize2 } from 'lucide-react';
+import { formatTimePrecise } from '../utils/audioUtils';
+import { TrimSettings, WaveformPeaks } from '../types';
+
+interface WaveformEditorProps {
+  peaks: WaveformPeaks | null;
+  duration: number;
+  trimSettings: TrimSettings;
+  onChange: (trimSettings: TrimSettings) => void;
+  playheadTime?: number | null;
+  disabled?: boolean;
+}
+
+type Handle = 'startTime' | 'endTime';
+
+const CANVAS_HEIGHT = 112;
+const HANDLE_HIT_WIDTH = 12; // CSS px around a handle that grabs it
+const MIN_SELECTION = 0.01; // 10ms
+const MAX_ZOOM = 64;
+
+// Round to whole milliseconds
+function toMs(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+export default function WaveformEditor({
+  peaks,
+  duration,
+  trimSettings,
+  onChange,
+  playheadTime = null,
+  disabled = false
+}: WaveformEditorProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+  const [zoom, setZoom] = useState(1);
+  const [viewStart, setViewStart] = useState(0);
+  const [activeHandle, setActiveHandle] = useState<Handle>('startTime');
+  const dragRef = useRef<Handle | null>(null);
+
+  const viewDuration = duration / zoom;
+
+  // Keep the visible window inside the file
+  const clampViewStart = useCallback((start: number, visible = viewDuration) => {
+    return Math.max(0, Math.min(duration - visible, start));
+  }, [duration, viewDuration]);
+
+  const timeToX = useCallback((time: number) => {
+    return ((time - viewStart) / viewDuration) * width;
+  }, [viewStart, viewDuration, width]);
+
+  const xToTime = useCallback((x: number) => {
+    return Math.max(0, Math.min(duration, viewStart + (x / width) * viewDuration));
+  }, [duration, viewStart, viewDuration, width]);
+
+  // Move one handle, keeping start < end and both inside the file
+  const moveHandle = useCallback((handle: Handle, time: number) => {
+    const next = { ...trimSettings };
+    if (handle === 'startTime') {
+      next.startTime = toMs(Math.max(0, Math.min(time, trimSettings.endTime - MIN_SELECTION)));
+    } else {
+      next.endTime = toMs(Math.min(duration, Math.max(time, trimSettings.startTime + MIN_SELECTION)));
+    }
+    onChange(next);
+  }, [trimSettings, duration, onChange]);
+
+  // Zoom around a point in time (defaults to the middle of the view)
+  const applyZoom = useCallback((nextZoom: number, anchor = viewStart + viewDuration / 2) => {
+    const clamped = Math.max(1, Math.min(MAX_ZOOM, nextZoom));
+    const nextVisible = duration / clamped;
+    const ratio = viewDuration > 0 ? (anchor - viewStart) / viewDuration : 0.5;
+    setZoom(clamped);
+    setViewStart(clampViewStart(anchor - ratio * nextVisible, nextVisible));
+  }, [duration, viewStart, viewDuration, clampViewStart]);
+
+  // Fit the view to the current selection
+  const zoomToSelection = () => {
+    const selection = trimSettings.endTime - trimSettings.startTime;
+    if (selection <= 0 || duration <= 0) return;
+    const nextZoom = Math.max(1, Math.min(MAX_ZOOM, duration / (selection * 1.2)));
+    const nextVisible = duration / nextZoom;
+    setZoom(nextZoom);
+    setViewStart(clampViewStart(trimSettings.startTime - (nextVisible - selection) / 2, nextVisible));
+  };
+
+  // Reset zoom when another file is loaded
+  useEffect(() => {
+    setZoom(1);
+    setViewStart(0);
+  }, [duration]);
+
+  // Track the container width
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(entries => {
+      setWidth(Math.floor(entries[0].contentRect.width));
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Ctrl/Cmd + wheel zooms around the cursor, plain wheel pans when zoomed in.
+  // Registered by hand because React wheel listeners are passive.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      if (disabled || duration <= 0) return;
+      const rect = canvas.getBoundingClientRect();
+
+      if (e.ctrlKey || e.metaKey) {
+        e.preventDefault();
+        applyZoom(zoom * (e.deltaY < 0 ? 1.25 : 0.8), xToTime(e.clientX - rect.left));
+      } else if (zoom > 1) {
+        e.preventDefault();
+        const delta = (Math.abs(e.deltaX) > Math.abs(e.deltaY) ? e.deltaX : e.deltaY) / rect.width;
+        setViewStart(clampViewStart(viewStart + delta * viewDuration));
+      }
+    };
+
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [disabled, duration, zoom, viewStart, viewDuration, applyZoom, xToTime, clampViewStart]);
+
+  // Draw waveform, selection, handles and playhead
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width === 0) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = CANVAS_HEIGHT * dpr;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, CANVAS_HEIGHT);
+    ctx.fillStyle = '#f8fafc';
+    ctx.fillRect(0, 0, width, CANVAS_HEIGHT);
+
+    const middle = CANVAS_HEIGHT / 2;
+    const startX = timeToX(trimSettings.startTime);
+    const endX = timeToX(trimSettings.endTime);
+
+    // Selection background
+    ctx.fillStyle = '#dbeafe';
+    ctx.fillRect(startX, 0, endX - startX, CANVAS_HEIGHT);
+
+    // Waveform - one min/max column per pixel
+    if (peaks && peaks.min.length > 0) {
+      const peaksPerSecond = peaks.sampleRate / peaks.samplesPerPeak;
+      for (let x = 0; x < width; x++) {
+        const from = Math.floor((viewStart + (x / width) * viewDuration) * peaksPerSecond);
+        const to = Math.max(from + 1, Math.floor((viewStart + ((x + 1) / width) * viewDuration) * peaksPerSecond));
+        let low = 0;
+        let high = 0;
+        for (let i = from; i < to && i < peaks.min.length; i++) {
+          if (peaks.min[i] < low) low = peaks.min[i];
+          if (peaks.max[i] > high) high = peaks.max[i];
+        }
+        ctx.fillStyle = x >= startX && x <= endX ? '#2563eb' : '#94a3b8';
+        ctx.fillRect(x, middle - high * middle, 1, Math.max(1, (high - low) * middle));
+      }
+    } else {
+      ctx.fillStyle = '#cbd5e1';
+      ctx.fillRect(0, middle, width, 1);
+    }
+
+    // Handles
+    [['startTime', startX], ['endTime', endX]].forEach(([handle, x]) => {
+      const position = x as number;
+      if (position < -HANDLE_HIT_WIDTH || position > width + HANDLE_HIT_WIDTH) return;
+      ctx.fillStyle = handle === activeHandle ? '#1d4ed8' : '#3b82f6';
+      ctx.fillRect(position - 1, 0, 2, CANVAS_HEIGHT);
+      ctx.fillRect(handle === 'startTime' ? position : position - 8, 0, 8, 14);
+    });
+
+    // Playhead
+    if (playheadTime !== null) {
+      const x = timeToX(playheadTime);
+      if (x >= 0 && x <= width) {
+        ctx.fillStyle = '#dc2626';
+        ctx.fillRect(x - 0.5, 0, 1, CANVAS_HEIGHT);
+      }
+    }
+  }, [peaks, width, viewStart, viewDuration, trimSettings, activeHandle, playheadTime, timeToX]);
+
+  // Grab the nearest handle and follow the pointer
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled || duration <= 0) return;
+    const x = e.clientX - e.currentTarget.getBoundingClientRect().left;
+    const startDistance = Math.abs(x - timeToX(trimSettings.startTime));
+    const endDistance = Math.abs(x - timeToX(trimSettings.endTime));
+    const handle: Handle = startDistance <= endDistance ? 'startTime' : 'endTime';
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    e.currentTarget.focus();
+    dragRef.current = handle;
+    setActiveHandle(handle);
+
+    // Clicking away from both handles jumps the nearest one to the cursor
+    if (Math.min(startDistance, endDistance) > HANDLE_HIT_WIDTH) {
+      moveHandle(handle, xToTime(x));
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const handle = dragRef.current;
+    if (!handle) return;
+    moveHandle(handle, xToTime(e.clientX - e.currentTarget.getBoundingClientRect().left));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    dragRef.current = null;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+  };
+
+  // Arrows nudge the active handle: 10ms, Shift 100ms, Alt 1ms.
+  // [ selects the start handle, ] the end handle, +/- zoom.
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+
+    switch (e.key) {
+      case 'ArrowLeft':
+      case 'ArrowRight': {
+        const step = e.shiftKey ? 0.1 : e.altKey ? 0.001 : 0.01;
+        moveHandle(activeHandle, trimSettings[activeHandle] + (e.key === 'ArrowLeft' ? -step : step));
+        break;
+      }
+      case '[':
+        setActiveHandle('startTime');
+        break;
+      case ']':
+        setActiveHandle('endTime');
+        break;
+      case '+':
+      case '=':
+        applyZoom(zoom * 2);
+        break;
+      case '-':
+        applyZoom(zoom / 2);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  // Exact value typed into a time field (seconds with ms precision)
+  const handleTimeInput = (handle: Handle, value: string) => {
+    const seconds = parseFloat(value);
+    if (!Number.isNaN(seconds)) {
+      setActiveHandle(handle);
+      moveHandle(handle, seconds);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div ref={containerRef} className="relative rounded-lg overflow-hidden border border-gray-200">
+        <canvas
+          ref={canvasRef}
+          tabIndex={disabled ? -1 : 0}
+          role="slider"
+          aria-label={activeHandle === 'startTime' ? 'Trim start' : 'Trim end'}
+          aria-valuemin={0}
+          aria-valuemax={duration}
+          aria-valuenow={trimSettings[activeHandle]}
+          aria-valuetext={formatTimePrecise(trimSettings[activeHandle])}
+          style={{ width: '100%', height: CANVAS_HEIGHT, touchAction: 'none' }}
+          className={`block focus:outline-none focus:ring-2 focus:ring-primary-500 ${disabled ? 'opacity-50' : 'cursor-ew-resize'}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onKeyDown={handleKeyDown}
+        />
+        {!peaks && (
+          <p className="absolute inset-0 flex items-center justify-center text-xs text-gray-500 pointer-events-none">
+            Waveform not available for this file
+          </p>
+        )}
+      </div>
+
+      {/* Zoom */}
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span>{formatTimePrecise(viewStart)} - {formatTimePrecise(viewStart + viewDuration)}</span>
+        <div className="flex items-center space-x-1">
+          <button
+            type="button"
+            onClick={() => applyZoom(zoom / 2)}
+            disabled={disabled || zoom <= 1}
+            className="p-1.5 rounded hover:bg-gray-100 disabled:opacity-40"
+            aria-label="Zoom out"
+          >
+            <ZoomOut className="h-4 w-4" />
+          </button>
+          <span className="w-10 text-center">{zoom.toFixed(zoom < 10 ? 1 : 0)}x</span>
+          <button
+            type="button"
+            onClick={() => applyZoom(zoom * 2)}
+            disabled={disabled || zoom >= MAX_ZOOM}
+            className="p-1.5 rounded hover:bg-gray-100 disabled:opacity-40"
+            aria-label="Zoom in"
+          >
+            <ZoomIn className="h-4 w-4" />
+          </button>
+          <button
+            type="button"
+            onClick={zoomToSelection}
+            disabled={disabled}
+            className="p-1.5 rounded hover:bg-gray-100 disabled:opacity-40"
+            aria-label="Zoom to selection"
+          >
+            <Maximize2 className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Exact times */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {(['startTime', 'endTime'] as Handle[]).map(handle => (
+          <div key={handle}>
+            <label htmlFor={`trim-${handle}`} className="block text-sm font-medium text-gray-700 mb-2">
+              {handle === 'startTime' ? 'Start Time' : 'End Time'} (s)
+            </label>
+            <input
+              id={`trim-${handle}`}
+              type="number"
+              min={0}
+              max={duration}
+              step={0.001}
+              value={trimSettings[handle]}
+              onChange={(e) => handleTimeInput(handle, e.target.value)}
+              onFocus={() => setActiveHandle(handle)}
+              disabled={disabled}
+              className="input-field"
+            />
+            <p className="text-sm text-gray-600 mt-1">{formatTimePrecise(trimSettings[handle])}</p>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Drag the handles or use ← → to nudge (Shift ×10, Alt 1ms). [ and ] pick the handle, Ctrl + scroll zooms.
+      </p>
+    </div>
+  );
+}
@@ -1,41 +1,46 @@
-import { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
-import { v4 as uuidv4 } from 'uuid';
-import { Sound, AudioContextType } from '../types';
+import { createContext, useContext, useReducer, useEffect, useRef, useState, ReactNode } from 'react';
+import { Sound, AudioContextType, DeletedBatch } from '../types';
+import {
+  fetchSounds,
+  createSoundRecord,
+  patchSoundRecord,
+  saveSoundPositions,
+  postSoundPlay,
+  deleteSoundRecord,
+  deleteSoundRecords,
+  restoreTrashedSounds,
+  importSoundRecords,
+  importSoundArchive,
+  SoundConflictError,
+} from '../utils/soundApi';
+import { subscribeLiveEvents } from '../utils/liveEvents';
+import { scoreSound } from '../utils/search';
 
 // Action types
 type AudioAction =
-  | { type: 'ADD_SOUND'; payload: Omit<Sound, 'id' | 'createdAt' | 'updatedAt'> }
+  | { type: 'ADD_SOUND'; payload: Sound }
   | { type: 'UPDATE_SOUND'; payload: { id: string; updates: Partial<Sound> } }
+  | { type: 'REORDER_SOUNDS'; payload: Record<string, number | null | undefined> }
   | { type: 'DELETE_SOUND'; payload: string }
+  | { type: 'DELETE_SOUNDS'; payload: string[] }
   | { type: 'SET_SOUNDS'; payload: Sound[] }
-  | { type: 'CLEAR_SOUNDS' };
+  | { type: 'MERGE_SOUNDS'; payload: { sounds: Sound[]; pending: Record<string, Partial<Sound>>; addMissing?: boolean } }
+  | { type: 'MERGE_PLAYS'; payload: Sound[] };
 
 // Initial state
 const initialState: Sound[] = [];
 
 // Reducer function
 function audioReducer(state: Sound[], action: AudioAction): Sound[] {
-  // Log action type and payload if present
-  if ('payload' in action) {
-    console.log('🔄 Reducer action:', action.type, action.payload);
-  } else {
-    console.log('🔄 Reducer action:', action.type);
-  }
+  console.log('🔄 Reducer action:', action.type, action.payload);
   console.log('📊 Current state:', state);
   
   switch (action.type) {
     case 'ADD_SOUND':
-      const newSound: Sound = {
-        ...action.payload,
-        id: uuidv4(),
-        fileType: action.payload.fileType || 'audio/mpeg',
-        fileSize: action.payload.fileSize || 0,
-        audioUrl: action.payload.audioUrl || '',
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
+      // Record comes from the server - replace any earlier copy with the same id
+      const newSound: Sound = action.payload;
       console.log('🎵 New sound created:', newSound);
-      const newState = [...state, newSound];
+      const newState = [...state.filter(sound => sound.id !== newSound.id), newSound];
       console.log('📊 New state:', newState);
       console.log('📊 Total sounds in state:', newState.length);
       return newState;
@@ -43,7 +48,14 @@ function audioReducer(state: Sound[], action: AudioAction): Sound[] {
     case 'UPDATE_SOUND':
       return state.map(sound =>
         sound.id === action.payload.id
-          ? { ...sound, ...action.payload.updates, updatedAt: new Date() }
+          ? { ...sound, updatedAt: new Date(), ...action.payload.updates }
+          : sound
+      );
+
+    case 'REORDER_SOUNDS':
+      return state.map(sound =>
+        sound.id in action.payload
+          ? { ...sound, position: action.payload[sound.id] }
           : sound
       );
 
@@ -67,10 +79,40 @@ function audioReducer(state: Sound[], action: AudioAction): Sound[] {
        console.log('📊 Is array:', Array.isArray(action.payload));
        return action.payload;
 
-    case 'CLEAR_SOUNDS':
-      // Clean up all Blob URLs before clearing (only blob URLs)
+    case 'MERGE_SOUNDS': {
+      // Server copies (own saves and live events): an older revision never replaces a newer
+      // one, and edits of this tab still on their way to the server stay on top
+      const { sounds: copies, pending, addMissing } = action.payload;
+      const incoming = new Map(copies.map(copy => [copy.id, copy]));
+      const merged = state.map(sound => {
+        const copy = incoming.get(sound.id);
+        if (!copy) return sound;
+        incoming.delete(sound.id);
+        if ((copy.revision ?? 0) < (sound.revision ?? 0)) return sound;
+        // Plays do not bump the revision - a count this tab already raised never goes back
+        const plays = (sound.playCount ?? 0) > (copy.playCount ?? 0)
+          ? { playCount: sound.playCount, lastPlayedAt: sound.lastPlayedAt }
+          : {};
+        return { ...copy, ...plays, ...pending[sound.id] };
+      });
+      // Updates of sounds this tab no longer has are late - only new sounds are added
+      return addMissing ? [...merged, ...Array.from(incoming.values())] : merged;
+    }
+
+    case 'MERGE_PLAYS': {
+      // Play counts only grow, whatever order the events come in
+      const played = new Map(action.payload.map(copy => [copy.id, copy]));
+      return state.map(sound => {
+        const copy = played.get(sound.id);
+        if (!copy || (copy.playCount ?? 0) <= (sound.playCount ?? 0)) return sound;
+        return { ...sound, playCount: copy.playCount, lastPlayedAt: copy.lastPlayedAt };
+      });
+    }
+
+    case 'DELETE_SOUNDS':
+      // Clean up Blob URLs of the removed sounds (only blob URLs)
       state.forEach(sound => {
-        if (sound.audioUrl && sound.audioUrl.startsWith('blob:')) {
+        if (action.payload.includes(sound.id) && sound.audioUrl && sound.audioUrl.startsWith('blob:')) {
           try {
             URL.revokeObjectURL(sound.audioUrl);
           } catch (error) {
@@ -78,8 +120,8 @@ function audioReducer(state: Sound[], action: AudioAction): Sound[] {
           }
         }
       });
-      console.log('🧹 Cleaned up all Blob URLs');
-      return [];
+      console.log('🧹 Cleaned up Blob URLs of deleted sounds');
+      return state.filter(sound => !action.payload.includes(sound.id));
 
     default:
       return state;
@@ -92,6 +134,13 @@ const AudioContext = createContext<AudioContextType | undefined>(undefined);
 // Provider component
 export function AudioProvider({ children }: { children: ReactNode }) {
   const [sounds, dispatch] = useReducer(audioReducer, initialState);
+  const [lastDeleted, setLastDeleted] = useState<DeletedBatch | null>(null);
+  // Optimistic edits still waiting for the server, per sound id
+  const pendingRef = useRef(new Map<string, { updates: Partial<Sound>; count: number }>());
+
+  const pendingUpdates = () => Object.fromEntries(
+    Array.from(pendingRef.current.entries()).map(([id, entry]) => [id, entry.updates])
+  );
 
   // Load sounds from localStorage on mount
   useEffect(() => {
@@ -104,57 +153,22 @@ export function AudioProvider({ children }: { children: ReactNode }) {
         const savedSounds = localStorage.getItem('audio-sounds');
         console.log('📦 Saved sounds data:', savedSounds);
         
-        // Najpierw spróbuj załadować dźwięki z serwera
+        // Najpierw spróbuj załadować dźwięki z serwera - serwer trzyma stałe id i tytuły
         try {
           console.log('🔄 Syncing with server...');
-          const response = await fetch('/api/sounds');
-          console.log('📡 Response status:', response.status);
-          console.log('📡 Response ok:', response.ok);
+          const soundsFromServer = await fetchSounds();
+          console.log('📡 Server sounds length:', soundsFromServer.length);
           
-          if (response.ok) {
-            const serverSounds = await response.json();
-            console.log('📡 Server sounds:', serverSounds);
-            console.log('📡 Server sounds length:', serverSounds.length);
-            
-            if (serverSounds.length > 0) {
-              console.log('🆕 Server has sounds - converting to Sound format');
-              
-              // Konwertuj dźwięki z serwera na format Sound
-              const soundsFromServer = serverSounds.map((serverSound: any) => {
-                console.log('🔄 Converting server sound:', serverSound);
-                const converted = {
-                  id: uuidv4(), // Generuj nowe ID
-                  title: serverSound.filename.replace(/\.[^/.]+$/, ''), // Usuń rozszerzenie
-                  filename: serverSound.filename,
-                  duration: 0, // Domyślna wartość - można dodać później
-                  audioUrl: serverSound.filePath, // Użyj filePath z serwera
-                  fileType: serverSound.filename.endsWith('.wav') ? 'audio/wav' : 'audio/mpeg',
-                  fileSize: serverSound.size,
-                  createdAt: new Date(serverSound.createdAt),
-                  updatedAt: new Date(serverSound.modifiedAt),
-                };
-                console.log('✅ Converted sound:', converted);
-                return converted;
-              });
-              
-              console.log('🎵 Converted server sounds:', soundsFromServer);
-              
-              // Zapisz do localStorage i dispatch
-              console.log('💾 Saving to localStorage...');
-              localStorage.setItem('audio-sounds', JSON.stringify(soundsFromServer));
-              console.log('📤 Dispatching SET_SOUNDS...');
-              dispatch({ type: 'SET_SOUNDS', payload: soundsFromServer });
-              console.log('✅ Dispatch completed');
-              return; // Zakończ tutaj - nie ładuj z localStorage
-            }
-          } else {
-            console.error('❌ Server response not ok:', response.status, response.statusText);
-          }
+          // Zapisz do localStorage i dispatch
+          localStorage.setItem('audio-sounds', JSON.stringify(soundsFromServer));
+          dispatch({ type: 'SET_SOUNDS', payload: soundsFromServer });
+          console.log('✅ Dispatch completed');
+          return; // Zakończ tutaj - nie ładuj z localStorage
         } catch (error) {
           console.error('❌ Error syncing with server:', error);
         }
         
-        // Jeśli serwer nie ma dźwięków lub wystąpił błąd, spróbuj localStorage
+        // Jeśli serwer nie odpowiada, spróbuj localStorage
         if (savedSounds) {
           const parsedSounds = JSON.parse(savedSounds);
           console.log('✅ Parsed sounds from localStorage:', parsedSounds);
@@ -179,6 +193,7 @@ export function AudioProvider({ children }: { children: ReactNode }) {
             ...sound,
             createdAt: new Date(sound.createdAt),
             updatedAt: new Date(sound.updatedAt),
+            lastPlayedAt: sound.lastPlayedAt ? new Date(sound.lastPlayedAt) : null,
           }));
           
           console.log('🎵 Valid sounds with dates:', soundsWithDates);
@@ -199,6 +214,28 @@ export function AudioProvider({ children }: { children: ReactNode }) {
     loadSounds();
   }, []);
 
+  // Apply changes made in other browsers as they happen
+  useEffect(() => subscribeLiveEvents(event => {
+    console.log('📡 Live event:', event.type);
+    switch (event.type) {
+      case 'sound.created':
+      case 'sound.updated':
+        dispatch({ type: 'MERGE_SOUNDS', payload: { sounds: event.sounds, pending: pendingUpdates(), addMissing: event.type === 'sound.created' } });
+        break;
+      case 'sound.played':
+        dispatch({ type: 'MERGE_PLAYS', payload: event.sounds });
+        break;
+      case 'sound.deleted':
+        dispatch({ type: 'DELETE_SOUNDS', payload: event.ids });
+        break;
+      case 'resync':
+        fetchSounds()
+          .then(loaded => dispatch({ type: 'SET_SOUNDS', payload: loaded }))
+          .catch(error => console.error('❌ Error reloading sounds:', error));
+        break;
+    }
+  }), []);
+
   // Save sounds to localStorage whenever sounds change
   useEffect(() => {
     try {
@@ -229,28 +266,142 @@ export function AudioProvider({ children }: { children: ReactNode }) {
   // Context value
   const value: AudioContextType = {
     sounds,
-    addSound: (sound) => {
+    addSound: async (sound) => {
       console.log('➕ Adding sound:', sound);
-      dispatch({ type: 'ADD_SOUND', payload: sound });
+      // Serwer nadaje id i zapisuje rekord, dopiero potem dodajemy go lokalnie
+      const created = await createSoundRecord({
+        filename: sound.filename,
+        title: sound.title,
+        duration: sound.duration,
+        fileType: sound.fileType,
+      });
+      dispatch({ type: 'ADD_SOUND', payload: created });
+      return created;
+    },
+    addCreatedSound: (sound) => {
+      // The live event for the same record may have been here first - merge, never duplicate
+      dispatch({ type: 'MERGE_SOUNDS', payload: { sounds: [sound], pending: pendingUpdates(), addMissing: true } });
     },
-    updateSound: (id, updates) => {
+    updateSound: async (id, updates, expected) => {
       console.log('✏️ Updating sound:', id, updates);
+      const previous = sounds.find(sound => sound.id === id);
+      const pending = pendingRef.current.get(id);
+      
+      // The server refuses the edit if someone else changed these fields meanwhile.
+      // Fields this tab is still saving are left out - their value on the server is ours.
+      const base = expected ?? previous;
+      const expectedValues = base && Object.fromEntries(Object.keys(updates)
+        .filter(key => expected || !(pending && key in pending.updates))
+        .map(key => [key, base[key as keyof Sound] ?? null]));
+      
+      pendingRef.current.set(id, { updates: { ...pending?.updates, ...updates }, count: (pending?.count ?? 0) + 1 });
+      const settle = () => {
+        const entry = pendingRef.current.get(id);
+        if (entry && --entry.count === 0) pendingRef.current.delete(id);
+      };
+      
+      // Optimistic update - applied right away, rolled back if the server rejects it
       dispatch({ type: 'UPDATE_SOUND', payload: { id, updates } });
+      
+      try {
+        const saved = await patchSoundRecord(id, updates, expectedValues);
+        settle();
+        dispatch({ type: 'MERGE_SOUNDS', payload: { sounds: [saved], pending: pendingUpdates() } });
+      } catch (error) {
+        settle();
+        if (error instanceof SoundConflictError) {
+          // Show what the other person saved instead of our rejected values
+          console.warn('⚔️ Edit conflict, taking the server copy:', error.fields);
+          dispatch({ type: 'MERGE_SOUNDS', payload: { sounds: [error.sound], pending: pendingUpdates() } });
+          throw error;
+        }
+        console.error('❌ Server rejected update, rolling back:', error);
+        if (previous) {
+          const rollback: Partial<Sound> = {};
+          (Object.keys(updates) as (keyof Sound)[]).forEach(key => {
+            (rollback as Record<string, unknown>)[key] = previous[key];
+          });
+          dispatch({ type: 'UPDATE_SOUND', payload: { id, updates: { ...rollback, updatedAt: previous.updatedAt } } });
+        }
+        throw error;
+      }
     },
-    deleteSound: (id) => {
+    reorderSounds: async (positions) => {
+      console.log('↕️ Reordering sounds:', positions);
+      const previous = Object.fromEntries(sounds.map(sound => [sound.id, sound.position]));
+
+      dispatch({ type: 'REORDER_SOUNDS', payload: positions });
+
+      try {
+        await saveSoundPositions(positions);
+      } catch (error) {
+        console.error('❌ Server rejected new order, rolling back:', error);
+        dispatch({ type: 'REORDER_SOUNDS', payload: previous });
+        throw error;
+      }
+    },
+    // Usage stats are best effort - a failed request must not get in the way of playing
+    recordPlay: (id) => {
+      const sound = sounds.find(s => s.id === id);
+      if (!sound) return;
+
+      dispatch({
+        type: 'UPDATE_SOUND',
+        payload: { id, updates: { playCount: (sound.playCount ?? 0) + 1, lastPlayedAt: new Date(), updatedAt: sound.updatedAt } }
+      });
+
+      postSoundPlay(id)
+        .then(saved => dispatch({ type: 'MERGE_PLAYS', payload: [saved] }))
+        .catch(error => console.warn('⚠️ Could not record play:', error));
+    },
+    // Removed locally only after the server has moved the file to the trash
+    deleteSound: async (id) => {
       console.log('🗑️ Deleting sound:', id);
+      const title = sounds.find(sound => sound.id === id)?.title ?? 'sound';
+      await deleteSoundRecord(id);
       dispatch({ type: 'DELETE_SOUND', payload: id });
+      setLastDeleted({ ids: [id], label: `Deleted “${title}”` });
     },
     getSound: (id) => sounds.find(sound => sound.id === id),
+    // Best matches first - see utils/search.ts
     searchSounds: (query) => {
-      const lowercaseQuery = query.toLowerCase();
-      return sounds.filter(sound =>
-        sound.title.toLowerCase().includes(lowercaseQuery)
-      );
+      return sounds
+        .map(sound => ({ sound, score: scoreSound(sound, query) }))
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score)
+        .map(({ sound }) => sound);
     },
-    clearSounds: () => {
+    // Sounds the server could not delete stay on the board
+    clearSounds: async () => {
       console.log('🧹 Clearing all sounds');
-      dispatch({ type: 'CLEAR_SOUNDS' });
+      const result = await deleteSoundRecords();
+      const failedIds = new Set(result.failed.map(failure => failure.id));
+      dispatch({ type: 'DELETE_SOUNDS', payload: sounds.filter(sound => !failedIds.has(sound.id)).map(sound => sound.id) });
+      if (result.deleted.length > 0) {
+        setLastDeleted({ ids: result.deleted, label: `Deleted ${result.deleted.length} sounds` });
+      }
+      return result;
+    },
+    restoreSounds: async (ids) => {
+      console.log('♻️ Restoring sounds:', ids);
+      const result = await restoreTrashedSounds(ids);
+      result.restored.forEach(sound => dispatch({ type: 'ADD_SOUND', payload: sound }));
+      setLastDeleted(current => current && current.ids.some(id => ids.includes(id)) ? null : current);
+      return result;
+    },
+    lastDeleted,
+    dismissLastDeleted: () => setLastDeleted(null),
+    importSounds: async (entries, mode) => {
+      console.log(`📥 Importing ${entries.length} sounds (${mode})`);
+      const { sounds: imported, ...result } = await importSoundRecords(entries, mode);
+      dispatch({ type: 'SET_SOUNDS', payload: imported });
+      return result;
+    },
+    importArchive: async (file) => {
+      console.log('📦 Importing board archive:', file.name);
+      const { sounds: merged, ...result } = await importSoundArchive(file);
+      dispatch({ type: 'SET_SOUNDS', payload: merged });
+      return result;
     },
   };
 
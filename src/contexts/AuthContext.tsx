@@ -0,0 +1,68 @@
+import { createContext, useContext, useEffect, useState, Fragment, ReactNode } from 'react';
+import { AuthContextType, AuthSession, UserRole } from '../types';
+import { fetchSession, postLogin, postLogout } from '../utils/soundApi';
+
+const ROLES: UserRole[] = ['viewer', 'editor', 'admin'];
+
+// Without a server (offline, localStorage only) there is nothing to protect
+const OFFLINE_SESSION: AuthSession = { authEnabled: false, user: { name: null, role: 'admin' } };
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [session, setSession] = useState<AuthSession | null>(null);
+
+  // Ask the server who we are before anything loads sounds or boards
+  useEffect(() => {
+    fetchSession()
+      .then(loaded => {
+        console.log('🔐 Session:', loaded.authEnabled ? loaded.user?.name ?? `anonymous (${loaded.user?.role ?? 'no access'})` : 'auth disabled');
+        setSession(loaded);
+      })
+      .catch(error => {
+        console.error('❌ Error loading session, continuing without auth:', error);
+        setSession(OFFLINE_SESSION);
+      });
+  }, []);
+
+  const refresh = async () => setSession(await fetchSession());
+
+  const value: AuthContextType = {
+    ...(session ?? OFFLINE_SESSION),
+    isLoading: session === null,
+    can: (role) => {
+      const current = session?.user?.role;
+      return current !== undefined && ROLES.indexOf(current) >= ROLES.indexOf(role);
+    },
+    login: async (username, password) => {
+      await postLogin({ username, password });
+      await refresh();
+    },
+    loginWithToken: async (token) => {
+      await postLogin({ token });
+      await refresh();
+    },
+    logout: async () => {
+      await postLogout();
+      await refresh();
+    },
+  };
+
+  // The data providers below are remounted when the user changes, so sounds and
+  // boards are loaded again with the new permissions
+  const sessionKey = session ? `${session.user?.name ?? 'anonymous'}:${session.user?.role ?? 'none'}` : 'loading';
+
+  return (
+    <AuthContext.Provider value={value}>
+      {session && <Fragment key={sessionKey}>{children}</Fragment>}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
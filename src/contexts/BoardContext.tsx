@@ -0,0 +1,193 @@
+import { createContext, useContext, useReducer, useEffect, useState, ReactNode } from 'react';
+import { Board, BoardLayout, BoardContextType } from '../types';
+import { fetchBoards, createBoardRecord, patchBoardRecord, deleteBoardRecord } from '../utils/soundApi';
+import { useAuth } from './AuthContext';
+import { subscribeLiveEvents } from '../utils/liveEvents';
+import { setPlaybackMode } from '../utils/playbackEngine';
+
+const ACTIVE_BOARD_KEY = 'active-board';
+const LIBRARY_LAYOUT_KEY = 'library-layout';
+
+const DEFAULT_LAYOUT: BoardLayout = {
+  viewMode: 'grid',
+  sortBy: 'title',
+  sortOrder: 'asc',
+  fixedSlots: false,
+  playbackMode: 'overlap'
+};
+
+type BoardAction =
+  | { type: 'SET_BOARDS'; payload: Board[] }
+  | { type: 'ADD_BOARD'; payload: Board }
+  | { type: 'UPDATE_BOARD'; payload: { id: string; updates: Partial<Board> } }
+  | { type: 'DELETE_BOARD'; payload: string };
+
+function boardReducer(state: Board[], action: BoardAction): Board[] {
+  console.log('🔄 Board action:', action.type, action.payload);
+
+  switch (action.type) {
+    case 'SET_BOARDS':
+      return action.payload;
+
+    case 'ADD_BOARD':
+      return [...state.filter(board => board.id !== action.payload.id), action.payload];
+
+    case 'UPDATE_BOARD':
+      return state.map(board =>
+        board.id === action.payload.id
+          ? { ...board, ...action.payload.updates }
+          : board
+      );
+
+    case 'DELETE_BOARD':
+      return state.filter(board => board.id !== action.payload);
+
+    default:
+      return state;
+  }
+}
+
+// Layout of the "All sounds" view lives in the browser - it is not a server board
+function loadLibraryLayout(): BoardLayout {
+  try {
+    return { ...DEFAULT_LAYOUT, ...JSON.parse(localStorage.getItem(LIBRARY_LAYOUT_KEY) || '{}') };
+  } catch {
+    return { ...DEFAULT_LAYOUT };
+  }
+}
+
+const BoardContext = createContext<BoardContextType | undefined>(undefined);
+
+export function BoardProvider({ children }: { children: ReactNode }) {
+  const [boards, dispatch] = useReducer(boardReducer, []);
+  const [activeBoardId, setActiveBoardId] = useState<string | null>(() => localStorage.getItem(ACTIVE_BOARD_KEY));
+  const [libraryLayout, setLibraryLayout] = useState<BoardLayout>(loadLibraryLayout);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const canEdit = useAuth().can('editor');
+
+  const loadBoards = async () => {
+    const loaded = await fetchBoards();
+    console.log('🗂️ Boards loaded:', loaded.length);
+    dispatch({ type: 'SET_BOARDS', payload: loaded });
+  };
+
+  // Load boards from the server on mount
+  useEffect(() => {
+    loadBoards()
+      .catch(error => console.error('❌ Error loading boards:', error))
+      .finally(() => setIsLoaded(true));
+  }, []);
+
+  // Boards changed in another browser (or by deleting/restoring sounds) come in whole
+  useEffect(() => subscribeLiveEvents(event => {
+    if (event.type === 'boards.changed') {
+      dispatch({ type: 'SET_BOARDS', payload: event.boards });
+    } else if (event.type === 'resync') {
+      loadBoards().catch(error => console.error('❌ Error reloading boards:', error));
+    }
+  }), []);
+
+  const activeBoard = boards.find(board => board.id === activeBoardId) ?? null;
+
+  // Fall back to all sounds when the remembered board is gone
+  useEffect(() => {
+    if (isLoaded && activeBoardId && !activeBoard) {
+      setActiveBoardId(null);
+    }
+  }, [isLoaded, activeBoardId, activeBoard]);
+
+  const layout: BoardLayout = activeBoard
+    ? {
+        viewMode: activeBoard.viewMode,
+        sortBy: activeBoard.sortBy,
+        sortOrder: activeBoard.sortOrder,
+        fixedSlots: activeBoard.fixedSlots,
+        playbackMode: activeBoard.playbackMode
+      }
+    : libraryLayout;
+
+  // The engine is shared by the whole tab - it follows the board on screen
+  useEffect(() => {
+    setPlaybackMode(layout.playbackMode);
+  }, [layout.playbackMode]);
+
+  useEffect(() => {
+    if (activeBoardId) {
+      localStorage.setItem(ACTIVE_BOARD_KEY, activeBoardId);
+    } else {
+      localStorage.removeItem(ACTIVE_BOARD_KEY);
+    }
+  }, [activeBoardId]);
+
+  // Optimistic board update, rolled back if the server rejects it
+  const patchBoard = async (id: string, updates: Partial<Omit<Board, 'id' | 'createdAt' | 'updatedAt'>>) => {
+    const previous = boards.find(board => board.id === id);
+    dispatch({ type: 'UPDATE_BOARD', payload: { id, updates } });
+
+    try {
+      const saved = await patchBoardRecord(id, updates);
+      dispatch({ type: 'UPDATE_BOARD', payload: { id, updates: saved } });
+    } catch (error) {
+      console.error('❌ Server rejected board update, rolling back:', error);
+      if (previous) {
+        dispatch({ type: 'UPDATE_BOARD', payload: { id, updates: previous } });
+      }
+      throw error;
+    }
+  };
+
+  const value: BoardContextType = {
+    boards,
+    activeBoard,
+    layout,
+    selectBoard: (id) => {
+      console.log('🗂️ Switching board:', id ?? 'all sounds');
+      setActiveBoardId(id);
+    },
+    createBoard: async (name) => {
+      const created = await createBoardRecord(name);
+      dispatch({ type: 'ADD_BOARD', payload: created });
+      return created;
+    },
+    renameBoard: (id, name) => patchBoard(id, { name }),
+    deleteBoard: async (id) => {
+      await deleteBoardRecord(id);
+      dispatch({ type: 'DELETE_BOARD', payload: id });
+      if (id === activeBoardId) {
+        setActiveBoardId(null);
+      }
+    },
+    setBoardSounds: (id, soundIds) => patchBoard(id, { soundIds }),
+    setBoardPositions: (id, positions) => patchBoard(id, { positions }),
+    updateLayout: (updates) => {
+      if (activeBoard && !canEdit) {
+        // Viewers may rearrange their own view, it is just not saved on the board
+        dispatch({ type: 'UPDATE_BOARD', payload: { id: activeBoard.id, updates } });
+        return;
+      }
+      if (activeBoard) {
+        // Failure is logged in patchBoard - the layout just snaps back
+        patchBoard(activeBoard.id, updates).catch(() => {});
+        return;
+      }
+      const next = { ...libraryLayout, ...updates };
+      localStorage.setItem(LIBRARY_LAYOUT_KEY, JSON.stringify(next));
+      setLibraryLayout(next);
+    },
+    reloadBoards: loadBoards,
+  };
+
+  return (
+    <BoardContext.Provider value={value}>
+      {children}
+    </BoardContext.Provider>
+  );
+}
+
+export function useBoards() {
+  const context = useContext(BoardContext);
+  if (context === undefined) {
+    throw new Error('useBoards must be used within a BoardProvider');
+  }
+  return context;
+}
@@ -0,0 +1,72 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { AudioPlayer, VoiceOptions } from '../types';
+import { createAudioPlayer } from '../utils/audioPlayer';
+import { subscribeToVoices } from '../utils/playbackEngine';
+
+export interface AudioPlayerState {
+  player: AudioPlayer;
+  isPlaying: boolean;
+  isPaused: boolean;
+  currentTime: number;
+  duration: number;
+  progress: number; // 0-1
+}
+
+// React wrapper around createAudioPlayer. Re-renders when the sound starts or
+// stops and every animation frame while it plays, for progress displays.
+// Unmounting does not stop playback - a sound keeps playing when its button is
+// filtered out of the grid. Changed options apply to voices already playing.
+export function useAudioPlayer(
+  soundId: string,
+  load: () => Promise<AudioBuffer>,
+  options: VoiceOptions & { direct?: boolean } = {}
+): AudioPlayerState {
+  // Always call the latest loader, without recreating the player
+  const loadRef = useRef(load);
+  loadRef.current = load;
+
+  const { volume = 1, playbackRate = 1, direct = false } = options;
+  const player = useMemo(() => createAudioPlayer(soundId, () => loadRef.current(), { direct }), [soundId, direct]);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+
+  useEffect(() => {
+    player.setVolume(volume);
+  }, [player, volume]);
+
+  useEffect(() => {
+    player.setPlaybackRate(playbackRate);
+  }, [player, playbackRate]);
+
+  // Follow voices of this sound
+  useEffect(() => {
+    return subscribeToVoices(() => {
+      setIsPlaying(player.isPlaying);
+      setIsPaused(player.isPaused);
+      setCurrentTime(player.getCurrentTime());
+      setDuration(player.getDuration());
+    });
+  }, [player]);
+
+  // Animate the position while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frame = requestAnimationFrame(function tick() {
+      setCurrentTime(player.getCurrentTime());
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, player]);
+
+  return {
+    player,
+    isPlaying,
+    isPaused,
+    currentTime,
+    duration,
+    progress: duration > 0 ? Math.min(1, currentTime / duration) : 0
+  };
+}
@@ -0,0 +1,54 @@
+import { useState } from 'react';
+
+export interface SlotDragState {
+  from: number;
+  over: number | null;
+}
+
+// Drag a grid cell by its handle onto another cell marked with data-slot.
+// Pointer events cover mouse, pen and touch; the handle needs touch-action: none
+// so a touch drag does not scroll the page. Arrow keys on a focused handle move
+// the cell by one slot.
+export function useSlotDrag(onMove: (from: number, to: number) => void, slotCount: number) {
+  const [drag, setDrag] = useState<SlotDragState | null>(null);
+
+  // Slot of the cell under the pointer
+  const slotAt = (x: number, y: number): number | null => {
+    const cell = document.elementFromPoint(x, y)?.closest<HTMLElement>('[data-slot]');
+    return cell ? Number(cell.dataset.slot) : null;
+  };
+
+  const getHandleProps = (slot: number) => ({
+    onPointerDown: (event: React.PointerEvent<HTMLElement>) => {
+      if (event.button !== 0) return;
+      event.preventDefault();
+      event.currentTarget.setPointerCapture(event.pointerId);
+      setDrag({ from: slot, over: slot });
+    },
+    onPointerMove: (event: React.PointerEvent<HTMLElement>) => {
+      if (!drag) return;
+      const over = slotAt(event.clientX, event.clientY);
+      if (over !== drag.over) {
+        setDrag({ ...drag, over });
+      }
+    },
+    onPointerUp: () => {
+      if (drag && drag.over !== null && drag.over !== drag.from) {
+        onMove(drag.from, drag.over);
+      }
+      setDrag(null);
+    },
+    onPointerCancel: () => setDrag(null),
+    onKeyDown: (event: React.KeyboardEvent<HTMLElement>) => {
+      const step = event.key === 'ArrowLeft' || event.key === 'ArrowUp' ? -1
+        : event.key === 'ArrowRight' || event.key === 'ArrowDown' ? 1
+        : 0;
+      const target = slot + step;
+      if (step === 0 || target < 0 || target >= slotCount) return;
+      event.preventDefault();
+      onMove(slot, target);
+    }
+  });
+
+  return { drag, getHandleProps };
+}
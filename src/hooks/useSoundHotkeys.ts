@@ -0,0 +1,50 @@
+import { useEffect, useRef } from 'react';
+import { Sound } from '../types';
+import { eventToHotkey, isTypingTarget, hasCommandModifier } from '../utils/hotkeys';
+import { playSound, stopAll, getPlaybackSettings } from '../utils/playbackEngine';
+
+// Global key listener: a sound's hotkey plays it, the panic key stops everything.
+// Plain keys are ignored while typing in a text field, combos with Ctrl/Alt/Meta are not.
+export function useSoundHotkeys(
+  sounds: Sound[],
+  handlers: {
+    onPlay: (sound: Sound) => void;
+    onError: (error: unknown, sound: Sound) => void;
+  }
+) {
+  // Latest values for the listener, which is attached only once
+  const soundsRef = useRef(sounds);
+  soundsRef.current = sounds;
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.repeat || event.defaultPrevented) return;
+
+      const hotkey = eventToHotkey(event);
+      if (!hotkey) return;
+      if (isTypingTarget(event.target) && !hasCommandModifier(hotkey)) return;
+
+      // The panic key wins over a sound bound to the same key
+      if (hotkey === getPlaybackSettings().panicKey) {
+        event.preventDefault();
+        console.log('🛑 Panic key - stopping all sounds');
+        stopAll();
+        return;
+      }
+
+      const sound = soundsRef.current.find(s => s.hotkey === hotkey);
+      if (!sound) return;
+
+      event.preventDefault();
+      console.log('⌨️ Hotkey', hotkey, '->', sound.title);
+      playSound(sound)
+        .then(() => handlersRef.current.onPlay(sound))
+        .catch(error => handlersRef.current.onError(error, sound));
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+}
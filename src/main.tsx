@@ -1,7 +1,9 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App'
+import { AuthProvider } from './contexts/AuthContext'
 import { AudioProvider } from './contexts/AudioContext'
+import { BoardProvider } from './contexts/BoardContext'
 import './index.css'
 
 console.log('🚀 main.tsx loaded')
@@ -10,8 +12,12 @@ console.log('Root element:', document.getElementById('root'))
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <AudioProvider>
-      <App />
-    </AudioProvider>
+    <AuthProvider>
+      <AudioProvider>
+        <BoardProvider>
+          <App />
+        </BoardProvider>
+      </AudioProvider>
+    </AuthProvider>
   </React.StrictMode>,
 )
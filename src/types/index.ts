@@ -6,45 +6,284 @@ export interface Sound {
   fileType: string; // MP4, MP3, etc.
   fileSize: number; // File size in bytes
   audioUrl: string; // URL do odtwarzania dźwięku (może być blob lub ścieżka serwera)
+  tags?: string[];
+  category?: string | null; // One per sound, tags can be many
+  color?: string | null; // Kolor przycisku w formacie #rrggbb (null = domyślny)
+  description?: string;
+  gain?: number; // dB, 0 = bez zmian
+  playbackRate?: number; // 1 = normal speed
+  muted?: boolean;
+  hotkey?: string | null; // np. "Ctrl+1" - see utils/hotkeys.ts
+  position?: number | null; // Slot in the manual layout of "All sounds"
+  favorite?: boolean;
+  playCount?: number; // Counted by the server, see recordPlay
+  lastPlayedAt?: Date | null;
+  revision?: number; // Bumped by the server on every edit - the higher copy wins
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Sound record as stored and returned by the server (dates as ISO strings)
+export interface SoundRecord extends Omit<Sound, 'createdAt' | 'updatedAt' | 'lastPlayedAt'> {
+  createdAt: string;
+  updatedAt: string;
+  lastPlayedAt?: string | null;
+}
+
+// Tag or category with the number of sounds using it, for filter chips
+export interface Facet {
+  value: string;
+  count: number;
+}
+
+export type ViewMode = 'grid' | 'list';
+
+export type SortField = 'title' | 'duration' | 'createdAt' | 'playCount' | 'manual';
+
+// Sections of the grid on top of the board
+export type SoundView = 'all' | 'favorites' | 'recent' | 'mostPlayed';
+
+export type SortOrder = 'asc' | 'desc';
+
+// How a board shows its sounds
+export interface BoardLayout {
+  viewMode: ViewMode;
+  sortBy: SortField;
+  sortOrder: SortOrder;
+  fixedSlots: boolean; // Manual layout keeps empty slots (2x10 on mobile)
+  playbackMode: PlaybackMode;
+}
+
+// Named collection of sounds - references sound ids, files are shared
+export interface Board extends BoardLayout {
+  id: string;
+  name: string;
+  soundIds: string[];
+  positions: Record<string, number>; // Sound id -> slot in the manual layout
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface BoardRecord extends Omit<Board, 'createdAt' | 'updatedAt'> {
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BoardContextType {
+  boards: Board[];
+  activeBoard: Board | null; // null = all sounds
+  layout: BoardLayout; // Layout of the active board (or of the full library)
+  selectBoard: (id: string | null) => void;
+  createBoard: (name: string) => Promise<Board>;
+  renameBoard: (id: string, name: string) => Promise<void>;
+  deleteBoard: (id: string) => Promise<void>;
+  setBoardSounds: (id: string, soundIds: string[]) => Promise<void>;
+  setBoardPositions: (id: string, positions: Record<string, number>) => Promise<void>;
+  updateLayout: (updates: Partial<BoardLayout>) => void;
+  reloadBoards: () => Promise<void>; // After the server changed boards (delete/restore of sounds)
+}
+
+// Pushed by the server over /api/events when another browser (or this one) changes something
+export type LiveEvent =
+  | { type: 'sound.created' | 'sound.updated' | 'sound.played'; sounds: Sound[] }
+  | { type: 'sound.deleted'; ids: string[] }
+  | { type: 'boards.changed'; boards: Board[] }
+  | { type: 'resync' }; // Events were missed - load everything again
+
+// Roles in order - each one can do what the ones before it can
+export type UserRole = 'viewer' | 'editor' | 'admin';
+
+export interface AuthUser {
+  name: string | null; // null = anonymous access or auth turned off
+  role: UserRole;
+}
+
+export interface AuthSession {
+  authEnabled: boolean;
+  user: AuthUser | null; // null = login required
+}
+
+export interface AuthContextType extends AuthSession {
+  isLoading: boolean;
+  can: (role: UserRole) => boolean;
+  login: (username: string, password: string) => Promise<void>;
+  loginWithToken: (token: string) => Promise<void>;
+  logout: () => Promise<void>;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+// Sound the server could not delete
+export interface DeleteFailure {
+  id: string;
+  title: string;
+  reason: string;
+}
+
+export interface DeleteResult {
+  deleted: string[];
+  failed: DeleteFailure[];
+}
+
+// Sound in the trash - restorable until expiresAt
+export interface TrashedSound extends Sound {
+  deletedAt: Date;
+  expiresAt: Date;
+}
+
+export interface TrashedSoundRecord extends SoundRecord {
+  deletedAt: string;
+  expiresAt: string;
+}
+
+export interface RestoreResult {
+  restored: Sound[];
+  failed: DeleteFailure[];
+}
+
+// Last delete, offered for undo until the next one or until dismissed
+export interface DeletedBatch {
+  ids: string[];
+  label: string; // "Deleted “Title”", "Deleted 12 sounds"
+}
+
+// Problem found with a single entry of an imported board
+export interface ImportIssue {
+  index: number;
+  title: string;
+  reason: string;
+}
+
+// Result of validating an export file before it is sent to the server
+export interface ImportPreview {
+  entries: SoundRecord[];
+  invalid: ImportIssue[];
+  missing: ImportIssue[];
+  duplicates: number;
+}
+
+export interface ImportResult {
+  imported: number;
+  removed: number;
+  skipped: { title: string; reason: string }[];
+  warnings: { title: string; reason: string }[]; // Imported, but not everything (e.g. a taken hotkey)
+}
+
 export interface AudioProcessingState {
   isProcessing: boolean;
   progress: number;
   currentStep: string;
   error: string | null;
-  previewAudio: string | null; // URL do przyciętego audio do podsłuchania
-  isPreviewPlaying: boolean; // Czy preview jest odtwarzane
+  previewAudio: RenderedClip | null; // Przycięty bufor - dokładnie to, co zostanie zapisane
+}
+
+// A trimmed clip with its effects applied
+export interface RenderedClip {
+  buffer: AudioBuffer;
+  startOffset: number; // Seconds of silence cut from the start of the selection
 }
 
+export type FadeCurve = 'linear' | 'equal-power' | 'exponential';
+
+export type NormalizeMode = 'off' | 'peak' | 'lufs';
+
+// Cut range plus the optional effects applied to the clip (all off when omitted)
 export interface TrimSettings {
   startTime: number;
   endTime: number;
+  fadeIn?: number; // seconds
+  fadeOut?: number; // seconds
+  fadeCurve?: FadeCurve;
+  normalize?: NormalizeMode;
+  normalizeTarget?: number; // dBFS for 'peak', LUFS for 'lufs'
+  trimSilence?: boolean; // Cut leading/trailing silence inside the range
+  silenceThreshold?: number; // dBFS below which audio counts as silence
+}
+
+// Min/max pairs for drawing a waveform, one pair per samplesPerPeak samples
+export interface WaveformPeaks {
+  min: Float32Array;
+  max: Float32Array;
+  samplesPerPeak: number;
+  sampleRate: number;
+  duration: number;
+}
+
+// 'copy' keeps the original audio stream (lossless, no re-encoding)
+export type OutputFormat = 'copy' | 'opus' | 'mp3' | 'aac' | 'wav';
+
+export interface OutputSettings {
+  format: OutputFormat;
+  bitrate: number; // kbps, ignored for 'copy' and 'wav'
 }
 
 export interface UploadFormData {
   file: File | null;
   title: string;
   trimSettings: TrimSettings;
+  outputSettings: OutputSettings;
 }
 
 export interface AudioContextType {
   sounds: Sound[];
-  addSound: (sound: Omit<Sound, 'id' | 'createdAt' | 'updatedAt'>) => void;
-  updateSound: (id: string, updates: Partial<Sound>) => void;
-  deleteSound: (id: string) => void;
+  addSound: (sound: Omit<Sound, 'id' | 'createdAt' | 'updatedAt'>) => Promise<Sound>;
+  addCreatedSound: (sound: Sound) => void; // Record the server has already saved (e.g. /api/process)
+  // expected: values the edit is based on (default: the current ones) - see SoundConflictError
+  updateSound: (id: string, updates: Partial<Sound>, expected?: Partial<Sound>) => Promise<void>;
+  reorderSounds: (positions: Record<string, number>) => Promise<void>;
+  recordPlay: (id: string) => void;
+  deleteSound: (id: string) => Promise<void>;
   getSound: (id: string) => Sound | undefined;
   searchSounds: (query: string) => Sound[];
-  clearSounds: () => void;
+  clearSounds: () => Promise<DeleteResult>;
+  restoreSounds: (ids: string[]) => Promise<RestoreResult>;
+  lastDeleted: DeletedBatch | null;
+  dismissLastDeleted: () => void;
+  importSounds: (entries: SoundRecord[], mode: ImportMode) => Promise<ImportResult>;
+  importArchive: (file: File) => Promise<ImportResult>;
+}
+
+// Subset of the @ffmpeg/ffmpeg 0.12 FFmpeg class used by audioUtils
+export interface FFmpegProgressEvent {
+  progress: number; // 0-1
+  time: number;
 }
 
 export interface FFmpegInstance {
-  load: () => Promise<void>;
-  run: (args: string[]) => Promise<void>;
-  terminate: () => Promise<void>;
-  isLoaded: () => boolean;
+  loaded: boolean;
+  exec: (args: string[]) => Promise<number>;
+  writeFile: (path: string, data: Uint8Array) => Promise<boolean>;
+  readFile: (path: string) => Promise<Uint8Array | string>;
+  deleteFile: (path: string) => Promise<boolean>;
+  on: (event: 'progress', callback: (event: FFmpegProgressEvent) => void) => void;
+  off: (event: 'progress', callback: (event: FFmpegProgressEvent) => void) => void;
+  terminate: () => void;
+}
+
+// 'exclusive' stops whatever is playing when a new sound starts
+export type PlaybackMode = 'exclusive' | 'overlap';
+
+// Mode is not here - every board keeps its own (BoardLayout.playbackMode)
+export interface PlaybackSettings {
+  voiceLimit: number; // Max sounds playing at once in overlap mode
+  masterVolume: number; // 0-1
+  panicKey: string | null; // Stops everything, null = no key
+}
+
+// One sound currently playing in the playback engine
+export interface PlaybackVoice {
+  id: number;
+  soundId: string;
+  startedAt: number; // AudioContext time
+  offset: number; // Position in the buffer where playback started, seconds
+  rate: number; // Buffer seconds per real second
+  duration: number; // seconds
+}
+
+// How a voice is played - derived from a sound's gain/rate/mute
+export interface VoiceOptions {
+  volume?: number; // Linear gain
+  playbackRate?: number;
 }
 
 export interface AudioPlayer {
@@ -52,6 +291,7 @@ export interface AudioPlayer {
   pause: () => void;
   stop: () => void;
   setVolume: (volume: number) => void;
+  setPlaybackRate: (playbackRate: number) => void;
   getDuration: () => number;
   getCurrentTime: () => number;
   seek: (time: number) => void;
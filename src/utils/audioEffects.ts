@@ -0,0 +1,250 @@
+import { TrimSettings, FadeCurve, NormalizeMode, RenderedClip } from '../types';
+
+export const DEFAULT_FADE_CURVE: FadeCurve = 'equal-power';
+export const DEFAULT_SILENCE_THRESHOLD = -50; // dBFS
+export const NORMALIZE_DEFAULTS: Record<Exclude<NormalizeMode, 'off'>, number> = {
+  peak: -1, // dBFS
+  lufs: -16 // LUFS - loud enough for a soundboard, leaves headroom
+};
+
+// Never push peaks above this when normalizing to loudness
+const LOUDNESS_PEAK_CEILING = -1; // dBFS
+// Keep a little audio around detected sound so attacks are not cut
+const SILENCE_PADDING = 0.01; // 10ms
+
+// Convert decibels to linear gain and back
+export function dbToGain(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+export function gainToDb(gain: number): number {
+  return gain > 0 ? 20 * Math.log10(gain) : -Infinity;
+}
+
+// Check if any effect is switched on
+export function hasClipEffects(trimSettings: TrimSettings): boolean {
+  return Boolean(
+    (trimSettings.fadeIn ?? 0) > 0 ||
+    (trimSettings.fadeOut ?? 0) > 0 ||
+    (trimSettings.normalize && trimSettings.normalize !== 'off') ||
+    trimSettings.trimSilence
+  );
+}
+
+// Fade gain for a position 0..1 through the fade
+function fadeGain(position: number, curve: FadeCurve): number {
+  switch (curve) {
+    case 'equal-power':
+      return Math.sin(position * Math.PI / 2);
+    case 'exponential':
+      return position * position * position;
+    default:
+      return position;
+  }
+}
+
+// Find the first and last sample louder than the threshold (any channel)
+export function findSilenceBounds(audioBuffer: AudioBuffer, thresholdDb = DEFAULT_SILENCE_THRESHOLD): { start: number; end: number } | null {
+  const threshold = dbToGain(thresholdDb);
+  const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, i) => audioBuffer.getChannelData(i));
+  const isLoud = (index: number) => channels.some(data => Math.abs(data[index]) > threshold);
+
+  let start = 0;
+  while (start < audioBuffer.length && !isLoud(start)) start++;
+  if (start === audioBuffer.length) return null; // Everything is silent
+
+  let end = audioBuffer.length - 1;
+  while (end > start && !isLoud(end)) end--;
+
+  const padding = Math.round(SILENCE_PADDING * audioBuffer.sampleRate);
+  return {
+    start: Math.max(0, start - padding),
+    end: Math.min(audioBuffer.length, end + 1 + padding)
+  };
+}
+
+// Highest absolute sample value in dBFS
+export function measurePeak(audioBuffer: AudioBuffer): number {
+  let peak = 0;
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    const data = audioBuffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      const value = Math.abs(data[i]);
+      if (value > peak) peak = value;
+    }
+  }
+  return gainToDb(peak);
+}
+
+interface Biquad {
+  b0: number; b1: number; b2: number;
+  a1: number; a2: number;
+}
+
+// ITU-R BS.1770 K-weighting (high shelf + high pass) for any sample rate
+function kWeightingFilters(sampleRate: number): Biquad[] {
+  // Stage 1 - high shelf modelling the head
+  let w0 = 2 * Math.PI * 1681.974450955533 / sampleRate;
+  const A = Math.pow(10, 3.999843853973347 / 40);
+  let alpha = Math.sin(w0) / (2 * 0.7071752369554193);
+  let cos = Math.cos(w0);
+  let a0 = (A + 1) - (A - 1) * cos + 2 * Math.sqrt(A) * alpha;
+  const shelf: Biquad = {
+    b0: A * ((A + 1) + (A - 1) * cos + 2 * Math.sqrt(A) * alpha) / a0,
+    b1: -2 * A * ((A - 1) + (A + 1) * cos) / a0,
+    b2: A * ((A + 1) + (A - 1) * cos - 2 * Math.sqrt(A) * alpha) / a0,
+    a1: 2 * ((A - 1) - (A + 1) * cos) / a0,
+    a2: ((A + 1) - (A - 1) * cos - 2 * Math.sqrt(A) * alpha) / a0
+  };
+
+  // Stage 2 - RLB high pass (numerator fixed at 1, -2, 1 as in the spec)
+  w0 = 2 * Math.PI * 38.13547087602444 / sampleRate;
+  alpha = Math.sin(w0) / (2 * 0.5003270373238773);
+  cos = Math.cos(w0);
+  a0 = 1 + alpha;
+  const highPass: Biquad = {
+    b0: 1, b1: -2, b2: 1,
+    a1: -2 * cos / a0,
+    a2: (1 - alpha) / a0
+  };
+
+  return [shelf, highPass];
+}
+
+// Run a signal through a chain of biquads
+function applyBiquads(input: Float32Array, filters: Biquad[]): Float32Array {
+  let signal = input;
+  filters.forEach(({ b0, b1, b2, a1, a2 }) => {
+    const output = new Float32Array(signal.length);
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+    for (let i = 0; i < signal.length; i++) {
+      const x = signal[i];
+      const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+      x2 = x1; x1 = x;
+      y2 = y1; y1 = y;
+      output[i] = y;
+    }
+    signal = output;
+  });
+  return signal;
+}
+
+// Integrated loudness in LUFS (BS.1770-4: 400ms blocks, absolute and relative gating)
+export function measureLoudness(audioBuffer: AudioBuffer): number {
+  const { sampleRate, numberOfChannels } = audioBuffer;
+  const blockSize = Math.round(0.4 * sampleRate);
+  const hop = Math.round(0.1 * sampleRate); // 75% overlap
+  const filters = kWeightingFilters(sampleRate);
+  // Surround channels (4th and 5th) are weighted up, everything else counts once
+  const weights = Array.from({ length: numberOfChannels }, (_, i) => (i === 3 || i === 4 ? 1.41 : 1));
+  const weighted = Array.from({ length: numberOfChannels }, (_, i) => applyBiquads(audioBuffer.getChannelData(i), filters));
+
+  // Clips shorter than one block are measured as a single block
+  const blockCount = audioBuffer.length < blockSize ? 1 : Math.floor((audioBuffer.length - blockSize) / hop) + 1;
+  const blockPowers: number[] = [];
+
+  for (let block = 0; block < blockCount; block++) {
+    const from = block * hop;
+    const to = Math.min(from + blockSize, audioBuffer.length);
+    let power = 0;
+    weighted.forEach((data, channel) => {
+      let sum = 0;
+      for (let i = from; i < to; i++) sum += data[i] * data[i];
+      power += weights[channel] * (sum / (to - from));
+    });
+    blockPowers.push(power);
+  }
+
+  const toLoudness = (power: number) => -0.691 + 10 * Math.log10(power);
+  const meanPower = (powers: number[]) => powers.reduce((sum, power) => sum + power, 0) / powers.length;
+
+  const aboveAbsolute = blockPowers.filter(power => toLoudness(power) > -70);
+  if (aboveAbsolute.length === 0) return -Infinity;
+
+  const relativeGate = toLoudness(meanPower(aboveAbsolute)) - 10;
+  const gated = aboveAbsolute.filter(power => toLoudness(power) > relativeGate);
+  return toLoudness(meanPower(gated.length > 0 ? gated : aboveAbsolute));
+}
+
+// Multiply every sample by a gain given in dB (in place)
+export function applyGain(audioBuffer: AudioBuffer, db: number) {
+  const gain = dbToGain(db);
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    const data = audioBuffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) data[i] *= gain;
+  }
+}
+
+// Fade the start and end of the buffer (in place). Fades longer than half
+// the clip are shortened so they never overlap.
+export function applyFades(audioBuffer: AudioBuffer, fadeIn: number, fadeOut: number, curve: FadeCurve = DEFAULT_FADE_CURVE) {
+  const half = Math.floor(audioBuffer.length / 2);
+  const fadeInSamples = Math.min(half, Math.round(fadeIn * audioBuffer.sampleRate));
+  const fadeOutSamples = Math.min(half, Math.round(fadeOut * audioBuffer.sampleRate));
+
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    const data = audioBuffer.getChannelData(channel);
+    for (let i = 0; i < fadeInSamples; i++) {
+      data[i] *= fadeGain(i / fadeInSamples, curve);
+    }
+    for (let i = 0; i < fadeOutSamples; i++) {
+      data[data.length - 1 - i] *= fadeGain(i / fadeOutSamples, curve);
+    }
+  }
+}
+
+// Gain (dB) that brings the buffer to the normalization target
+export function getNormalizeGain(audioBuffer: AudioBuffer, mode: Exclude<NormalizeMode, 'off'>, target: number): number {
+  const peak = measurePeak(audioBuffer);
+  if (!Number.isFinite(peak)) return 0; // Digital silence
+
+  if (mode === 'peak') {
+    return target - peak;
+  }
+
+  const loudness = measureLoudness(audioBuffer);
+  if (!Number.isFinite(loudness)) return 0;
+
+  // Quiet clips with loud transients would clip - stop at the ceiling instead
+  return Math.min(target - loudness, LOUDNESS_PEAK_CEILING - peak);
+}
+
+// Apply the effects from trim settings to an already cut buffer.
+// Order: silence trim, normalization, fades. Returns a new buffer only when
+// silence was cut, otherwise the input buffer is modified in place.
+export function applyClipEffects(audioBuffer: AudioBuffer, trimSettings: TrimSettings): RenderedClip {
+  let buffer = audioBuffer;
+  let startOffset = 0;
+
+  if (trimSettings.trimSilence) {
+    const bounds = findSilenceBounds(buffer, trimSettings.silenceThreshold ?? DEFAULT_SILENCE_THRESHOLD);
+    if (bounds && (bounds.start > 0 || bounds.end < buffer.length)) {
+      const trimmed = new AudioBuffer({
+        numberOfChannels: buffer.numberOfChannels,
+        length: bounds.end - bounds.start,
+        sampleRate: buffer.sampleRate
+      });
+      for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+        trimmed.copyToChannel(buffer.getChannelData(channel).subarray(bounds.start, bounds.end), channel);
+      }
+      console.log(`🔇 Silence trimmed: ${(bounds.start / buffer.sampleRate).toFixed(3)}s from start, ${((buffer.length - bounds.end) / buffer.sampleRate).toFixed(3)}s from end`);
+      buffer = trimmed;
+      startOffset = bounds.start / audioBuffer.sampleRate;
+    }
+  }
+
+  if (trimSettings.normalize && trimSettings.normalize !== 'off') {
+    const target = trimSettings.normalizeTarget ?? NORMALIZE_DEFAULTS[trimSettings.normalize];
+    const gain = getNormalizeGain(buffer, trimSettings.normalize, target);
+    console.log(`📢 Normalizing (${trimSettings.normalize} ${target}): ${gain.toFixed(2)} dB`);
+    applyGain(buffer, gain);
+  }
+
+  const fadeIn = trimSettings.fadeIn ?? 0;
+  const fadeOut = trimSettings.fadeOut ?? 0;
+  if (fadeIn > 0 || fadeOut > 0) {
+    applyFades(buffer, fadeIn, fadeOut, trimSettings.fadeCurve ?? DEFAULT_FADE_CURVE);
+  }
+
+  return { buffer, startOffset };
+}
@@ -0,0 +1,80 @@
+import { AudioPlayer } from '../types';
+import { playBuffer, stopSound, getVoices, getVoicePosition, setSoundVolume, setSoundRate } from './playbackEngine';
+
+// AudioPlayer for one sound on top of the shared playback engine.
+// The player follows the newest engine voice of its sound, so it also reports
+// playback started elsewhere (another button, a hotkey) and sees voices cut
+// by exclusive mode or the voice limit.
+// Direct players skip the master bus (see playBuffer).
+export function createAudioPlayer(soundId: string, load: () => Promise<AudioBuffer>, { direct = false } = {}): AudioPlayer {
+  let buffer: AudioBuffer | null = null;
+  let pausedAt: number | null = null;
+  let volume = 1;
+  let playbackRate = 1;
+
+  const latestVoice = () => getVoices(soundId).pop() ?? null;
+
+  const start = async (offset: number) => {
+    buffer = await load();
+    pausedAt = null;
+    await playBuffer(soundId, buffer, { offset, volume, playbackRate, direct });
+  };
+
+  return {
+    // Resume after pause, otherwise start from the beginning
+    async play() {
+      await start(pausedAt ?? 0);
+    },
+
+    pause() {
+      const voice = latestVoice();
+      if (!voice) return;
+      pausedAt = getVoicePosition(voice);
+      stopSound(soundId);
+    },
+
+    stop() {
+      pausedAt = null;
+      stopSound(soundId);
+    },
+
+    setVolume(nextVolume: number) {
+      volume = Math.max(0, nextVolume);
+      setSoundVolume(soundId, volume);
+    },
+
+    setPlaybackRate(nextRate: number) {
+      playbackRate = nextRate;
+      setSoundRate(soundId, playbackRate);
+    },
+
+    getDuration() {
+      return latestVoice()?.duration ?? buffer?.duration ?? 0;
+    },
+
+    getCurrentTime() {
+      const voice = latestVoice();
+      return voice ? getVoicePosition(voice) : pausedAt ?? 0;
+    },
+
+    // Jump while playing restarts the voice at the new position; while stopped it
+    // only moves the point the next play() starts from
+    seek(time: number) {
+      const target = Math.max(0, Math.min(time, this.getDuration()));
+      if (latestVoice()) {
+        stopSound(soundId);
+        start(target).catch(error => console.error('❌ Seek failed:', error));
+      } else {
+        pausedAt = target;
+      }
+    },
+
+    get isPlaying() {
+      return latestVoice() !== null;
+    },
+
+    get isPaused() {
+      return pausedAt !== null && latestVoice() === null;
+    }
+  };
+}
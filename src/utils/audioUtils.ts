@@ -1,86 +1,201 @@
-// Tymczasowo wyłączone FFmpeg - strona będzie działać bez konwersji wideo
-// import { FFmpeg } from '@ffmpeg/ffmpeg';
-// import { fetchFile } from '@ffmpeg/util';
-import { TrimSettings } from '../types';
-
-// FFmpeg instance - tymczasowo wyłączone
-let ffmpeg: any = null;
-
-// Initialize FFmpeg - tymczasowo wyłączone
-export async function initFFmpeg(): Promise<void> {
-  console.log('FFmpeg temporarily disabled - video conversion not available');
-  return;
+// Self-hosted ffmpeg core - Vite emits these as assets, nothing is loaded from a CDN
+import coreURL from '@ffmpeg/core?url';
+import wasmURL from '@ffmpeg/core/wasm?url';
+import { TrimSettings, FFmpegInstance, FFmpegProgressEvent, OutputFormat, OutputSettings, WaveformPeaks, RenderedClip } from '../types';
+import { isMobile } from './mobileAudioUtils';
+import { applyClipEffects } from './audioEffects';
+
+// FFmpeg instance - loaded lazily on first use
+let ffmpeg: FFmpegInstance | null = null;
+let ffmpegLoading: Promise<FFmpegInstance> | null = null;
+
+export type ProgressCallback = (percent: number) => void;
+
+interface OutputFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+  codec: string;
+  hasBitrate: boolean;
 }
 
-// Convert MP4 to MP3
-export async function convertMP4ToMP3(file: File): Promise<ArrayBuffer> {
-  if (!ffmpeg || !ffmpeg.loaded) {
-    await initFFmpeg();
+// Output formats offered for trimmed clips
+export const OUTPUT_FORMATS: Record<OutputFormat, OutputFormatInfo> = {
+  copy: { label: 'Original stream (no effects)', extension: 'm4a', mimeType: 'audio/mp4', codec: 'copy', hasBitrate: false },
+  opus: { label: 'Opus / WebM', extension: 'webm', mimeType: 'audio/webm', codec: 'libopus', hasBitrate: true },
+  mp3: { label: 'MP3', extension: 'mp3', mimeType: 'audio/mpeg', codec: 'libmp3lame', hasBitrate: true },
+  aac: { label: 'AAC / M4A', extension: 'm4a', mimeType: 'audio/mp4', codec: 'aac', hasBitrate: true },
+  wav: { label: 'WAV (uncompressed)', extension: 'wav', mimeType: 'audio/wav', codec: 'pcm_s16le', hasBitrate: false },
+};
+
+export const OUTPUT_BITRATES = [64, 96, 128, 192, 256];
+
+// Compressed by default - 'copy' is only possible while no effect changes the audio
+export const DEFAULT_OUTPUT_SETTINGS: OutputSettings = { format: 'mp3', bitrate: 128 };
+
+// Initialize FFmpeg. The FFmpeg class runs the wasm core inside its own Web Worker,
+// and the JS wrapper itself is only downloaded when the first video is processed.
+export async function initFFmpeg(): Promise<FFmpegInstance> {
+  if (ffmpeg && ffmpeg.loaded) {
+    return ffmpeg;
   }
 
+  if (!ffmpegLoading) {
+    ffmpegLoading = (async () => {
+      console.log('🎬 Loading ffmpeg.wasm...');
+      const { FFmpeg } = await import('@ffmpeg/ffmpeg');
+      const instance = new FFmpeg();
+      await instance.load({ coreURL, wasmURL });
+      console.log('✅ ffmpeg.wasm loaded');
+      ffmpeg = instance;
+      return instance;
+    })().catch((error) => {
+      ffmpegLoading = null;
+      console.error('❌ Failed to load ffmpeg.wasm:', error);
+      throw new Error('Failed to load video processing engine');
+    });
+  }
+
+  return ffmpegLoading;
+}
+
+// Virtual filename keeping the container extension so ffmpeg picks the right demuxer
+function getInputName(file: File | Blob): string {
+  const match = file instanceof File ? /\.[a-z0-9]+$/i.exec(file.name) : null;
+  return `input${match ? match[0].toLowerCase() : '.mp4'}`;
+}
+
+// Run an ffmpeg command, forwarding progress as 0-100
+async function runFFmpeg(instance: FFmpegInstance, args: string[], onProgress?: ProgressCallback): Promise<number> {
+  const handleProgress = ({ progress }: FFmpegProgressEvent) => {
+    onProgress?.(Math.round(Math.max(0, Math.min(1, progress)) * 100));
+  };
+
+  instance.on('progress', handleProgress);
   try {
-    const inputName = 'input.mp4';
-    const outputName = 'output.mp3';
+    return await instance.exec(args);
+  } finally {
+    instance.off('progress', handleProgress);
+  }
+}
+
+// Remove virtual files, ignoring ones that were never written
+async function removeFiles(instance: FFmpegInstance, names: string[]): Promise<void> {
+  await Promise.all(names.map(name => instance.deleteFile(name).catch(() => false)));
+}
 
+// Read an output file from the virtual filesystem as a Blob
+async function readOutput(instance: FFmpegInstance, name: string, type: string): Promise<Blob> {
+  const data = await instance.readFile(name);
+  if (typeof data === 'string') {
+    throw new Error(`Unexpected text output from ffmpeg: ${name}`);
+  }
+  // Copy out of the worker's buffer so the Blob owns plain ArrayBuffer memory
+  return new Blob([new Uint8Array(data)], { type });
+}
+
+// Extract the audio track of an MP4/MOV/AVI video as MP3
+export async function extractAudio(file: File, onProgress?: ProgressCallback): Promise<Blob> {
+  const instance = await initFFmpeg();
+  const inputName = getInputName(file);
+  const outputName = 'output.mp3';
+
+  try {
     // Write input file to FFmpeg virtual filesystem
-    ffmpeg.FS('writeFile', inputName, new Uint8Array(await file.arrayBuffer()));
+    await instance.writeFile(inputName, new Uint8Array(await file.arrayBuffer()));
 
     // Run conversion command
-    await ffmpeg.run('-i', inputName, '-vn', '-acodec', 'libmp3lame', '-ab', '192k', outputName);
-
-    // Read output file
-    const data = ffmpeg.FS('readFile', outputName);
+    const exitCode = await runFFmpeg(instance, [
+      '-i', inputName, '-vn', '-acodec', 'libmp3lame', '-b:a', '192k', outputName
+    ], onProgress);
 
-    // Clean up virtual files
-    ffmpeg.FS('unlink', inputName);
-    ffmpeg.FS('unlink', outputName);
+    if (exitCode !== 0) {
+      throw new Error(`ffmpeg exited with code ${exitCode}`);
+    }
 
-    return data.buffer;
+    return await readOutput(instance, outputName, 'audio/mpeg');
   } catch (error) {
-    console.error('Error converting MP4 to MP3:', error);
+    console.error('Error extracting audio:', error);
     throw new Error('Failed to convert video to audio');
+  } finally {
+    await removeFiles(instance, [inputName, outputName]);
   }
 }
 
-// Trim audio file
-export async function trimAudio(audioBuffer: ArrayBuffer, trimSettings: TrimSettings): Promise<ArrayBuffer> {
-  if (!ffmpeg || !ffmpeg.loaded) {
-    await initFFmpeg();
-  }
+// ffmpeg arguments selecting the encoder for an output format
+function getEncoderArgs(output: OutputSettings): string[] {
+  const format = OUTPUT_FORMATS[output.format];
+  return format.hasBitrate
+    ? ['-acodec', format.codec, '-b:a', `${output.bitrate}k`]
+    : ['-acodec', format.codec];
+}
 
-  try {
-    const inputName = 'input.mp3';
-    const outputName = 'output.mp3';
+// Trim audio straight out of the video and encode it to the chosen format.
+// 'copy' tries a lossless stream copy into M4A (works for the AAC track of most
+// MP4/MOV files) and re-encodes to MP3 when the codec does not fit the container.
+export async function trimAudio(
+  file: File | Blob,
+  trimSettings: TrimSettings,
+  output: OutputSettings = DEFAULT_OUTPUT_SETTINGS,
+  onProgress?: ProgressCallback
+): Promise<Blob> {
+  const instance = await initFFmpeg();
+  const inputName = getInputName(file);
+  const duration = trimSettings.endTime - trimSettings.startTime;
+  const format = OUTPUT_FORMATS[output.format];
+  const outputName = `output.${format.extension}`;
+  const fallbackName = 'fallback.mp3';
+
+  if (duration <= 0) {
+    throw new Error('Invalid trim settings: start time must be less than end time');
+  }
 
-    // Write input file to FFmpeg virtual filesystem
-    ffmpeg.FS('writeFile', inputName, new Uint8Array(audioBuffer));
+  // -ss before -i seeks in the demuxer; for audio every packet is a keyframe
+  const cutArgs = ['-ss', trimSettings.startTime.toString(), '-i', inputName, '-t', duration.toString(), '-vn'];
 
-    // Calculate duration
-    const duration = trimSettings.endTime - trimSettings.startTime;
+  try {
+    await instance.writeFile(inputName, new Uint8Array(await file.arrayBuffer()));
 
-    // Run trim command
-    await ffmpeg.run(
-      '-i', inputName,
-      '-ss', trimSettings.startTime.toString(),
-      '-t', duration.toString(),
-      '-acodec', 'copy',
-      outputName
-    );
+    let exitCode = await runFFmpeg(instance, [...cutArgs, ...getEncoderArgs(output), outputName], onProgress);
+    if (exitCode === 0) {
+      console.log(`✂️ Trimmed to ${format.label}`);
+      return await readOutput(instance, outputName, format.mimeType);
+    }
 
-    // Read output file
-    const data = ffmpeg.FS('readFile', outputName);
+    if (output.format !== 'copy') {
+      throw new Error(`ffmpeg exited with code ${exitCode}`);
+    }
 
-    // Clean up virtual files
-    ffmpeg.FS('unlink', inputName);
-    ffmpeg.FS('unlink', outputName);
+    console.log('⚠️ Stream copy not possible for this codec, re-encoding to MP3');
+    exitCode = await runFFmpeg(instance, [...cutArgs, ...getEncoderArgs({ format: 'mp3', bitrate: 192 }), fallbackName], onProgress);
+    if (exitCode !== 0) {
+      throw new Error(`ffmpeg exited with code ${exitCode}`);
+    }
 
-    return data.buffer;
+    return await readOutput(instance, fallbackName, OUTPUT_FORMATS.mp3.mimeType);
   } catch (error) {
     console.error('Error trimming audio:', error);
     throw new Error('Failed to trim audio');
+  } finally {
+    await removeFiles(instance, [inputName, outputName, fallbackName]);
   }
 }
 
+// Above these sizes decoding in the browser runs out of memory or time
+const MOBILE_CLIENT_LIMIT = 25 * 1024 * 1024; // 25MB
+const DESKTOP_CLIENT_LIMIT = 80 * 1024 * 1024; // 80MB
+
+// Decide whether a file is too heavy to process on this device
+export function shouldProcessOnServer(file: File): boolean {
+  // deviceMemory is only reported by Chromium (in GB, rounded)
+  const deviceMemory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory;
+  if (deviceMemory !== undefined && deviceMemory <= 2) {
+    return true;
+  }
+
+  return file.size > (isMobile() ? MOBILE_CLIENT_LIMIT : DESKTOP_CLIENT_LIMIT);
+}
+
 // Get audio duration
 export function getAudioDuration(file: File): Promise<number> {
   return new Promise((resolve, reject) => {
@@ -120,6 +235,15 @@ export function formatTime(seconds: number): string {
   return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
 }
 
+// Format time as MM:SS.mmm for the trim editor
+export function formatTimePrecise(seconds: number): string {
+  const totalMs = Math.round(Math.max(0, seconds) * 1000);
+  const minutes = Math.floor(totalMs / 60000);
+  const remainingSeconds = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}.${ms.toString().padStart(3, '0')}`;
+}
+
 // Parse time from MM:SS format to seconds
 export function parseTime(timeString: string): number {
   const [minutes, seconds] = timeString.split(':').map(Number);
@@ -153,49 +277,165 @@ export function downloadFile(url: string, filename: string): void {
   document.body.removeChild(link);
 }
 
-// Clean up FFmpeg resources
+// Clean up FFmpeg resources (terminates the worker)
 export function cleanupFFmpeg(): void {
   if (ffmpeg) {
     try {
       ffmpeg.terminate();
       ffmpeg = null;
+      ffmpegLoading = null;
     } catch (error) {
       console.error('Error cleaning up FFmpeg:', error);
     }
   }
 }
 
-// Create trimmed audio using Web Audio API
-export async function createTrimmedAudio(file: File, trimSettings: TrimSettings): Promise<Blob> {
+// Decode the audio track of a file into an AudioBuffer
+export async function decodeAudioFile(file: File | Blob): Promise<AudioBuffer> {
+  const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
   try {
-    console.log('✂️ Creating trimmed audio...');
-    console.log('📁 Input file:', file.name, file.type, file.size);
-    console.log('⏰ Trim settings:', trimSettings);
-    
-    // Validate trim settings
-    if (trimSettings.startTime < 0 || trimSettings.endTime <= 0) {
-      throw new Error('Invalid trim settings: start time must be >= 0, end time must be > 0');
+    const arrayBuffer = await file.arrayBuffer();
+    return await Promise.race([
+      audioContext.decodeAudioData(arrayBuffer),
+      new Promise<never>((_, reject) =>
+        setTimeout(() => reject(new Error('Audio decoding timeout')), 30000)
+      )
+    ]);
+  } finally {
+    audioContext.close().catch(() => {});
+  }
+}
+
+// Reduce an AudioBuffer to min/max peaks across all channels
+export function computePeaks(audioBuffer: AudioBuffer, samplesPerPeak = 256): WaveformPeaks {
+  const peakCount = Math.ceil(audioBuffer.length / samplesPerPeak);
+  const min = new Float32Array(peakCount);
+  const max = new Float32Array(peakCount);
+
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    const data = audioBuffer.getChannelData(channel);
+    for (let peak = 0; peak < peakCount; peak++) {
+      const from = peak * samplesPerPeak;
+      const to = Math.min(from + samplesPerPeak, data.length);
+      let low = min[peak];
+      let high = max[peak];
+      for (let i = from; i < to; i++) {
+        const value = data[i];
+        if (value < low) low = value;
+        if (value > high) high = value;
+      }
+      min[peak] = low;
+      max[peak] = high;
     }
+  }
+
+  return {
+    min,
+    max,
+    samplesPerPeak,
+    sampleRate: audioBuffer.sampleRate,
+    duration: audioBuffer.duration
+  };
+}
+
+// Validate trim settings against a decoded buffer
+function validateTrimSettings(trimSettings: TrimSettings) {
+  if (trimSettings.startTime < 0 || trimSettings.endTime <= 0) {
+    throw new Error('Invalid trim settings: start time must be >= 0, end time must be > 0');
+  }
+  
+  if (trimSettings.startTime >= trimSettings.endTime) {
+    throw new Error('Invalid trim settings: start time must be less than end time');
+  }
+}
+
+// Cut the selected range out of a decoded buffer, sample-accurate, and apply
+// the clip effects. This is the single place that defines what a trimmed clip
+// sounds like - preview and save both go through it.
+export function renderTrimmedBuffer(audioBuffer: AudioBuffer, trimSettings: TrimSettings): RenderedClip {
+  validateTrimSettings(trimSettings);
+  
+  // Calculate trim points in samples
+  const startSample = Math.min(Math.floor(trimSettings.startTime * audioBuffer.sampleRate), audioBuffer.length);
+  const endSample = Math.min(Math.floor(trimSettings.endTime * audioBuffer.sampleRate), audioBuffer.length);
+  const length = Math.max(1, endSample - startSample);
+  
+  console.log(`🎵 Trimming from ${trimSettings.startTime}s to ${trimSettings.endTime}s`);
+  console.log(`📊 Sample range: ${startSample} to ${endSample} (${length} samples)`);
+  
+  const trimmedBuffer = new AudioBuffer({
+    numberOfChannels: audioBuffer.numberOfChannels,
+    length,
+    sampleRate: audioBuffer.sampleRate
+  });
+  
+  // Copy trimmed portion for each channel
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    trimmedBuffer.copyToChannel(audioBuffer.getChannelData(channel).subarray(startSample, endSample), channel);
+  }
+  
+  return applyClipEffects(trimmedBuffer, trimSettings);
+}
+
+// Encode a rendered clip to the chosen format with ffmpeg.wasm, so the blob type
+// (and the saved extension) is always the real container. 'copy' is refused -
+// rendered PCM has no original stream left to copy.
+export async function encodeAudioBuffer(
+  audioBuffer: AudioBuffer,
+  output: OutputSettings = DEFAULT_OUTPUT_SETTINGS
+): Promise<Blob> {
+  if (output.format === 'copy') {
+    throw new Error('The original stream cannot be kept for a rendered clip - choose another format');
+  }
+  
+  // Convert to WAV blob
+  const wavBlob = await audioBufferToWav(audioBuffer);
+  console.log('💾 WAV blob created, size:', wavBlob.size);
+  
+  if (output.format === 'wav') {
+    return wavBlob;
+  }
+  
+  const format = OUTPUT_FORMATS[output.format];
+  let instance: FFmpegInstance;
+  try {
+    instance = await initFFmpeg();
+  } catch {
+    throw new Error(`${format.label} encoding needs the audio engine, which could not load - choose WAV`);
+  }
+  
+  const inputName = 'rendered.wav';
+  const outputName = `encoded.${format.extension}`;
+  try {
+    await instance.writeFile(inputName, new Uint8Array(await wavBlob.arrayBuffer()));
     
-    if (trimSettings.startTime >= trimSettings.endTime) {
-      throw new Error('Invalid trim settings: start time must be less than end time');
+    const exitCode = await runFFmpeg(instance, ['-i', inputName, ...getEncoderArgs(output), outputName]);
+    if (exitCode !== 0) {
+      throw new Error(`Could not encode the clip to ${format.label} (ffmpeg exited with code ${exitCode})`);
     }
     
-    // Create audio context
-    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-    console.log('🎵 Audio context created, sample rate:', audioContext.sampleRate);
+    const encoded = await readOutput(instance, outputName, format.mimeType);
+    console.log('💾 Encoded blob created:', encoded.type, encoded.size);
+    return encoded;
+  } finally {
+    await removeFiles(instance, [inputName, outputName]);
+  }
+}
+
+// Create trimmed audio using Web Audio API
+export async function createTrimmedAudio(
+  file: File,
+  trimSettings: TrimSettings,
+  output: OutputSettings = DEFAULT_OUTPUT_SETTINGS
+): Promise<Blob> {
+  try {
+    console.log('✂️ Creating trimmed audio...');
+    console.log('📁 Input file:', file.name, file.type, file.size);
+    console.log('⏰ Trim settings:', trimSettings);
     
-    // Read file as ArrayBuffer
-    const arrayBuffer = await file.arrayBuffer();
-    console.log('📦 File read as ArrayBuffer, size:', arrayBuffer.byteLength);
+    validateTrimSettings(trimSettings);
     
-    // Decode audio data with timeout
-    const audioBuffer = await Promise.race([
-      audioContext.decodeAudioData(arrayBuffer),
-      new Promise<never>((_, reject) => 
-        setTimeout(() => reject(new Error('Audio decoding timeout')), 30000)
-      )
-    ]) as AudioBuffer;
+    const audioBuffer = await decodeAudioFile(file);
     console.log('🔊 Audio decoded:', {
       duration: audioBuffer.duration,
       sampleRate: audioBuffer.sampleRate,
@@ -203,86 +443,22 @@ export async function createTrimmedAudio(file: File, trimSettings: TrimSettings)
       length: audioBuffer.length
     });
     
-    // Calculate trim points in samples
-    const startSample = Math.floor(trimSettings.startTime * audioBuffer.sampleRate);
-    const endSample = Math.floor(trimSettings.endTime * audioBuffer.sampleRate);
-    const length = endSample - startSample;
-    
-    console.log(`🎵 Trimming from ${trimSettings.startTime}s to ${trimSettings.endTime}s`);
-    console.log(`📊 Sample range: ${startSample} to ${endSample} (${length} samples)`);
-    
-    // Create trimmed buffer
-    const trimmedBuffer = audioContext.createBuffer(
-      audioBuffer.numberOfChannels,
-      length,
-      audioBuffer.sampleRate
-    );
-    
-    // Copy trimmed portion for each channel
-    for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
-      const channelData = audioBuffer.getChannelData(channel);
-      const trimmedData = trimmedBuffer.getChannelData(channel);
-      
-      for (let i = 0; i < length; i++) {
-        trimmedData[i] = channelData[startSample + i];
-      }
-    }
-    
-    console.log('✂️ Audio data copied to trimmed buffer');
-    
-    // Convert to WAV blob
-    const wavBlob = await audioBufferToWav(trimmedBuffer);
-    console.log('💾 WAV blob created, size:', wavBlob.size);
-    
+    const blob = await encodeAudioBuffer(renderTrimmedBuffer(audioBuffer, trimSettings).buffer, output);
     console.log('✅ Trimmed audio created successfully');
-    return wavBlob;
+    return blob;
     
   } catch (error) {
     console.error('❌ Error creating trimmed audio:', error);
-    throw new Error('Failed to create trimmed audio');
+    throw new Error(`Failed to create trimmed audio: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
-// Preview trimmed audio (without saving) - simplified version without FFmpeg
-export async function previewTrimmedAudio(file: File, trimSettings: TrimSettings): Promise<string> {
+// Render the exact clip that will be saved, for listening before upload.
+// Pass the already decoded buffer when there is one to skip decoding again.
+export async function previewTrimmedAudio(source: File | AudioBuffer, trimSettings: TrimSettings): Promise<RenderedClip> {
   try {
-    // Create audio element from file
-    const audio = new Audio(URL.createObjectURL(file));
-    
-    return new Promise((resolve, reject) => {
-      audio.addEventListener('loadedmetadata', () => {
-        try {
-          // Calculate trim points
-          const startTime = Math.min(trimSettings.startTime, audio.duration);
-          const endTime = Math.min(trimSettings.endTime, audio.duration);
-          
-          // Create a simple preview by setting audio time
-          // This is a simplified preview - just shows the trim range
-          const previewUrl = URL.createObjectURL(file);
-          
-          // Store trim info in the URL for later use
-          const previewAudio = new Audio(previewUrl);
-          previewAudio.currentTime = startTime;
-          
-          // Create a custom preview object with trim info
-          const previewData = {
-            url: previewUrl,
-            startTime,
-            endTime,
-            duration: endTime - startTime
-          };
-          
-          // Store in sessionStorage for the preview player
-          sessionStorage.setItem('audio-preview', JSON.stringify(previewData));
-          
-          resolve(previewUrl);
-        } catch (error) {
-          reject(error);
-        }
-      });
-      
-      audio.addEventListener('error', reject);
-    });
+    const audioBuffer = source instanceof AudioBuffer ? source : await decodeAudioFile(source);
+    return renderTrimmedBuffer(audioBuffer, trimSettings);
   } catch (error) {
     console.error('Error creating preview:', error);
     throw new Error('Failed to create audio preview');
@@ -0,0 +1,58 @@
+import { Sound } from '../types';
+
+// Manual layout: every sound sits in a numbered slot. In the fixed-slot grid
+// slots may stay empty, like the 2x10 mobile board from the README.
+
+export const FIXED_GRID = { columns: 2, rows: 10 };
+
+const PAGE_SIZE = FIXED_GRID.columns * FIXED_GRID.rows;
+
+// Place sounds into slots. Sounds without a saved slot (or whose slot is taken)
+// follow after the highest used slot, in the order given.
+export function resolveSlots(
+  sounds: Sound[],
+  getPosition: (sound: Sound) => number | null | undefined,
+  fixedSlots: boolean
+): (Sound | null)[] {
+  const slots: (Sound | null)[] = [];
+  const unplaced: Sound[] = [];
+
+  sounds.forEach(sound => {
+    const position = getPosition(sound);
+    if (typeof position === 'number' && position >= 0 && !slots[position]) {
+      slots[position] = sound;
+    } else {
+      unplaced.push(sound);
+    }
+  });
+
+  const filled = Array.from(slots, slot => slot ?? null);
+  filled.push(...unplaced);
+
+  if (!fixedSlots) {
+    return filled.filter(slot => slot !== null);
+  }
+
+  // Whole pages of the fixed grid, so the empty slots stay visible as drop targets
+  const size = Math.max(PAGE_SIZE, Math.ceil(filled.length / PAGE_SIZE) * PAGE_SIZE);
+  return [...filled, ...Array(size - filled.length).fill(null)];
+}
+
+// Slots after dragging `from` onto `to`, as a full { soundId: slot } map.
+// Fixed slots swap (or move into an empty slot); the compact layout inserts.
+export function moveSlot(slots: (Sound | null)[], from: number, to: number, fixedSlots: boolean): Record<string, number> {
+  const next = [...slots];
+
+  if (fixedSlots) {
+    [next[from], next[to]] = [next[to] ?? null, next[from]];
+  } else {
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+  }
+
+  const positions: Record<string, number> = {};
+  next.forEach((sound, slot) => {
+    if (sound) positions[sound.id] = slot;
+  });
+  return positions;
+}
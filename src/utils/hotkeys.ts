@@ -0,0 +1,74 @@
+import { Sound } from '../types';
+
+// Hotkeys are stored as "Ctrl+Alt+Shift+Meta+Key". The key comes from
+// KeyboardEvent.code, so a binding does not change with the keyboard layout
+// or with Shift turning "1" into "!".
+
+const MODIFIERS = ['Ctrl', 'Alt', 'Shift', 'Meta'] as const;
+
+const MODIFIER_CODES = new Set([
+  'ControlLeft', 'ControlRight', 'AltLeft', 'AltRight',
+  'ShiftLeft', 'ShiftRight', 'MetaLeft', 'MetaRight', 'OSLeft', 'OSRight', 'CapsLock'
+]);
+
+// Browser shortcuts that cannot (or should not) be taken over
+const RESERVED_HOTKEYS = ['Tab', 'Shift+Tab', 'F5', 'F11', 'F12', 'Ctrl+R', 'Ctrl+W', 'Ctrl+T', 'Ctrl+N', 'Ctrl+L', 'Ctrl+Shift+R'];
+
+export const DEFAULT_PANIC_KEY = 'Escape';
+
+type KeyLike = Pick<KeyboardEvent, 'code' | 'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey'>;
+
+// Short, readable name for a key code: KeyA -> A, Digit1 -> 1, Numpad1 -> Num1
+function keyName(code: string): string {
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  if (code.startsWith('Numpad')) return `Num${code.slice(6)}`;
+  return code;
+}
+
+// Turn a key event into a hotkey string, null for a lone modifier press
+export function eventToHotkey(event: KeyLike): string | null {
+  if (!event.code || MODIFIER_CODES.has(event.code)) return null;
+
+  const pressed = {
+    Ctrl: event.ctrlKey,
+    Alt: event.altKey,
+    Shift: event.shiftKey,
+    Meta: event.metaKey
+  };
+
+  return [...MODIFIERS.filter(modifier => pressed[modifier]), keyName(event.code)].join('+');
+}
+
+// True when the key is typed into a text field, where plain keys must keep working
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+  if (target instanceof HTMLInputElement) {
+    return !['checkbox', 'radio', 'range', 'button', 'submit', 'reset', 'color', 'file'].includes(target.type);
+  }
+  return false;
+}
+
+// Hotkeys with Ctrl/Alt/Meta still fire inside text fields - nobody types them
+export function hasCommandModifier(hotkey: string): boolean {
+  return hotkey.split('+').slice(0, -1).some(modifier => modifier !== 'Shift');
+}
+
+// Describe what already uses a hotkey, or null when it is free
+export function findHotkeyConflict(
+  hotkey: string,
+  sounds: Pick<Sound, 'id' | 'title' | 'hotkey'>[],
+  { exceptId, panicKey }: { exceptId?: string; panicKey?: string | null } = {}
+): string | null {
+  if (RESERVED_HOTKEYS.includes(hotkey)) {
+    return `${hotkey} is a browser shortcut`;
+  }
+  if (panicKey && hotkey === panicKey) {
+    return `${hotkey} is the stop-all key`;
+  }
+
+  const owner = sounds.find(sound => sound.id !== exceptId && sound.hotkey === hotkey);
+  return owner ? `${hotkey} is already used by "${owner.title}"` : null;
+}
@@ -0,0 +1,111 @@
+import { Sound, SoundRecord, ImportIssue, ImportPreview } from '../types';
+
+const SERVER_AUDIO_PREFIX = '/api/sounds/';
+
+// Check that a value is a string holding a parseable date
+function isDateString(value: unknown): boolean {
+  return typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+}
+
+// Check a single export entry against the Sound type, return the reason it fails
+export function validateSoundEntry(value: unknown): string | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return 'Entry is not an object';
+  }
+
+  const entry = value as Record<string, unknown>;
+
+  if (typeof entry.id !== 'string' || !entry.id) return 'Missing id';
+  if (typeof entry.title !== 'string' || !entry.title.trim()) return 'Missing title';
+  if (typeof entry.duration !== 'number' || entry.duration < 0) return 'Invalid duration';
+  if (typeof entry.fileType !== 'string') return 'Missing fileType';
+  if (typeof entry.fileSize !== 'number' || entry.fileSize < 0) return 'Invalid fileSize';
+  if (typeof entry.audioUrl !== 'string' || !entry.audioUrl) return 'Missing audioUrl';
+  if (!isDateString(entry.createdAt) || !isDateString(entry.updatedAt)) return 'Invalid dates';
+  if (entry.filename !== undefined && typeof entry.filename !== 'string') return 'Invalid filename';
+  if (entry.tags !== undefined && (!Array.isArray(entry.tags) || entry.tags.some(tag => typeof tag !== 'string'))) {
+    return 'Invalid tags';
+  }
+  if (entry.category !== undefined && entry.category !== null && typeof entry.category !== 'string') return 'Invalid category';
+  if (entry.color !== undefined && entry.color !== null && typeof entry.color !== 'string') return 'Invalid color';
+  if (entry.description !== undefined && typeof entry.description !== 'string') return 'Invalid description';
+  for (const field of ['gain', 'playbackRate'] as const) {
+    if (entry[field] !== undefined && typeof entry[field] !== 'number') return `Invalid ${field}`;
+  }
+  if (entry.muted !== undefined && typeof entry.muted !== 'boolean') return 'Invalid muted';
+  if (entry.favorite !== undefined && typeof entry.favorite !== 'boolean') return 'Invalid favorite';
+  if (entry.hotkey !== undefined && entry.hotkey !== null && typeof entry.hotkey !== 'string') return 'Invalid hotkey';
+
+  return null;
+}
+
+// Resolve the server filename an entry points at (null for blob: and external URLs)
+export function getEntryFilename(entry: Pick<Sound, 'filename' | 'audioUrl'>): string | null {
+  if (entry.audioUrl.startsWith(SERVER_AUDIO_PREFIX)) {
+    return entry.filename || decodeURIComponent(entry.audioUrl.slice(SERVER_AUDIO_PREFIX.length));
+  }
+  return null;
+}
+
+// Parse an exported JSON board and check every entry against the sounds on the server
+export function parseSoundExport(text: string, serverSounds: Sound[]): ImportPreview {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  if (!Array.isArray(data)) {
+    throw new Error('Expected a list of sounds - is this a Sound Grid export?');
+  }
+
+  const serverFiles = new Set(serverSounds.map(sound => sound.filename).filter(Boolean));
+  const seenIds = new Set<string>();
+  const seenFiles = new Set<string>();
+  const entries: SoundRecord[] = [];
+  const invalid: ImportIssue[] = [];
+  const missing: ImportIssue[] = [];
+  let duplicates = 0;
+
+  data.forEach((value, index) => {
+    const reason = validateSoundEntry(value);
+    const title = (value as { title?: unknown })?.title;
+    const label = typeof title === 'string' && title ? title : `Entry ${index + 1}`;
+
+    if (reason) {
+      invalid.push({ index, title: label, reason });
+      return;
+    }
+
+    const entry = value as SoundRecord;
+
+    if (entry.audioUrl.startsWith('blob:')) {
+      missing.push({ index, title: label, reason: 'Blob URL from an old session - audio is gone' });
+      return;
+    }
+
+    const filename = getEntryFilename(entry);
+    if (!filename) {
+      missing.push({ index, title: label, reason: 'Audio is not stored on this server' });
+      return;
+    }
+
+    if (!serverFiles.has(filename)) {
+      missing.push({ index, title: label, reason: `File ${filename} not found on server` });
+      return;
+    }
+
+    // De-duplicate inside the file by id and filename
+    if (seenIds.has(entry.id) || seenFiles.has(filename)) {
+      duplicates++;
+      return;
+    }
+
+    seenIds.add(entry.id);
+    seenFiles.add(filename);
+    entries.push({ ...entry, filename });
+  });
+
+  return { entries, invalid, missing, duplicates };
+}
@@ -0,0 +1,61 @@
+import { LiveEvent, SoundRecord, BoardRecord } from '../types';
+import { toSound, toBoard } from './soundApi';
+
+type LiveEventListener = (event: LiveEvent) => void;
+
+// Event names sent by server/liveEvents.js ("ready" only sets the stream position)
+const SOUND_EVENTS = ['sound.created', 'sound.updated', 'sound.played'] as const;
+
+const listeners = new Set<LiveEventListener>();
+let source: EventSource | null = null;
+
+const emit = (event: LiveEvent) => listeners.forEach(listener => listener(event));
+
+// One EventSource per tab, shared by the audio and board providers. The browser
+// reconnects on its own and the server replays what was missed meanwhile.
+function open() {
+  source = new EventSource('/api/events');
+
+  SOUND_EVENTS.forEach(type => {
+    source!.addEventListener(type, (event) => {
+      const { sounds }: { sounds: SoundRecord[] } = JSON.parse((event as MessageEvent).data);
+      emit({ type, sounds: sounds.map(toSound) });
+    });
+  });
+
+  source.addEventListener('sound.deleted', (event) => {
+    const { ids }: { ids: string[] } = JSON.parse((event as MessageEvent).data);
+    emit({ type: 'sound.deleted', ids });
+  });
+
+  source.addEventListener('boards.changed', (event) => {
+    const { boards }: { boards: BoardRecord[] } = JSON.parse((event as MessageEvent).data);
+    emit({ type: 'boards.changed', boards: boards.map(toBoard) });
+  });
+
+  source.addEventListener('resync', () => emit({ type: 'resync' }));
+
+  source.addEventListener('open', () => console.log('📡 Live updates connected'));
+  source.addEventListener('error', () => {
+    // CLOSED = the server refused the stream (e.g. logged out) - no more retries
+    if (source?.readyState === EventSource.CLOSED) {
+      console.warn('⚠️ Live updates unavailable');
+    }
+  });
+}
+
+// Listen to changes made in other browsers - returns the unsubscribe function
+export function subscribeLiveEvents(listener: LiveEventListener): () => void {
+  listeners.add(listener);
+  if (!source && typeof EventSource !== 'undefined') {
+    open();
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && source) {
+      source.close();
+      source = null;
+    }
+  };
+}
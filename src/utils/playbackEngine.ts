@@ -0,0 +1,311 @@
+import { Sound, PlaybackMode, PlaybackSettings, PlaybackVoice, VoiceOptions } from '../types';
+import { DEFAULT_PANIC_KEY } from './hotkeys';
+
+// Shared Web Audio playback for the board: one AudioContext, decoded buffers
+// cached per sound, every voice routed through a master gain and a limiter.
+
+const SETTINGS_KEY = 'playback-settings';
+
+export const DEFAULT_PLAYBACK_SETTINGS: PlaybackSettings = {
+  voiceLimit: 8,
+  masterVolume: 0.8,
+  panicKey: DEFAULT_PANIC_KEY
+};
+
+export const VOICE_LIMITS = [1, 2, 4, 8, 16, 32];
+
+// Limits for the per-sound settings, shared with the server validation
+export const GAIN_RANGE = { min: -24, max: 12 }; // dB
+export const PLAYBACK_RATE_RANGE = { min: 0.25, max: 4 };
+
+type PlayableSound = Pick<Sound, 'id' | 'audioUrl' | 'gain' | 'playbackRate' | 'muted'>;
+
+interface CachedBuffer {
+  url: string;
+  buffer: Promise<AudioBuffer>;
+}
+
+interface Voice extends PlaybackVoice {
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+}
+
+type Listener = (voices: PlaybackVoice[]) => void;
+
+let context: AudioContext | null = null;
+let masterGain: GainNode | null = null;
+let settings: PlaybackSettings = loadSettings();
+let mode: PlaybackMode = 'overlap'; // Set from the active board's layout
+let nextVoiceId = 1;
+const voices: Voice[] = [];
+const buffers = new Map<string, CachedBuffer>();
+const listeners = new Set<Listener>();
+
+// Read saved settings, falling back to defaults for anything missing or broken
+function loadSettings(): PlaybackSettings {
+  try {
+    // "mode" was saved here before it moved to the boards
+    const { mode: _mode, ...saved } = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    return { ...DEFAULT_PLAYBACK_SETTINGS, ...saved };
+  } catch {
+    return { ...DEFAULT_PLAYBACK_SETTINGS };
+  }
+}
+
+// Voice without its audio nodes, for the UI
+function toPublicVoice({ id, soundId, startedAt, offset, rate, duration }: Voice): PlaybackVoice {
+  return { id, soundId, startedAt, offset, rate, duration };
+}
+
+// Voice options for a sound's saved gain, rate and mute
+export function getVoiceOptions(sound: Pick<Sound, 'gain' | 'playbackRate' | 'muted'>): Required<VoiceOptions> {
+  return {
+    volume: sound.muted ? 0 : Math.pow(10, (sound.gain ?? 0) / 20),
+    playbackRate: sound.playbackRate ?? 1
+  };
+}
+
+function publicVoices(): PlaybackVoice[] {
+  return voices.map(toPublicVoice);
+}
+
+function notify() {
+  const snapshot = publicVoices();
+  listeners.forEach(listener => listener(snapshot));
+}
+
+// Create the context and master bus on first use: master gain -> limiter -> speakers
+export function getAudioContext(): AudioContext {
+  if (context && context.state !== 'closed') {
+    return context;
+  }
+
+  context = new (window.AudioContext || (window as any).webkitAudioContext)();
+
+  // A compressor with a hard knee and high ratio works as a brickwall-ish limiter,
+  // so stacked voices do not clip the output
+  const limiter = context.createDynamicsCompressor();
+  limiter.threshold.value = -1;
+  limiter.knee.value = 0;
+  limiter.ratio.value = 20;
+  limiter.attack.value = 0.003;
+  limiter.release.value = 0.1;
+  limiter.connect(context.destination);
+
+  masterGain = context.createGain();
+  masterGain.gain.value = settings.masterVolume;
+  masterGain.connect(limiter);
+
+  console.log('🎵 Playback engine ready, sample rate:', context.sampleRate);
+  return context;
+}
+
+// Resume the context - browsers keep it suspended until a user gesture
+export async function unlockAudio(): Promise<void> {
+  const ctx = getAudioContext();
+  if (ctx.state === 'suspended') {
+    await ctx.resume();
+    console.log('🎵 AudioContext resumed');
+  }
+}
+
+// Fetch and decode a sound, cached per id. A changed audioUrl reloads it.
+export function loadSound(sound: Pick<Sound, 'id' | 'audioUrl'>): Promise<AudioBuffer> {
+  const cached = buffers.get(sound.id);
+  if (cached && cached.url === sound.audioUrl) {
+    return cached.buffer;
+  }
+
+  const buffer = (async () => {
+    const response = await fetch(sound.audioUrl);
+    if (!response.ok) {
+      throw new Error(`Could not load audio (${response.status})`);
+    }
+    return getAudioContext().decodeAudioData(await response.arrayBuffer());
+  })();
+
+  // Do not keep failures around - the next click retries
+  buffer.catch(() => {
+    if (buffers.get(sound.id)?.buffer === buffer) {
+      buffers.delete(sound.id);
+    }
+  });
+
+  buffers.set(sound.id, { url: sound.audioUrl, buffer });
+  return buffer;
+}
+
+// Decode sounds ahead of time so the first click plays without delay
+export function preloadSounds(sounds: Pick<Sound, 'id' | 'audioUrl'>[]) {
+  sounds.forEach(sound => {
+    loadSound(sound).catch(error => console.warn('⚠️ Preload failed:', sound.audioUrl, error));
+  });
+}
+
+// Drop cached buffers for sounds that are no longer on the board
+export function pruneCache(soundIds: string[]) {
+  const keep = new Set(soundIds);
+  Array.from(buffers.keys())
+    .filter(id => !keep.has(id))
+    .forEach(id => buffers.delete(id));
+}
+
+// Stop one voice right away
+function stopVoice(voice: Voice) {
+  const index = voices.indexOf(voice);
+  if (index === -1) return;
+  voices.splice(index, 1);
+
+  voice.source.onended = null;
+  try {
+    voice.source.stop();
+  } catch {
+    // Already stopped
+  }
+  voice.source.disconnect();
+  voice.gain.disconnect();
+}
+
+// Start a decoded buffer on the master bus. In exclusive mode everything else
+// stops first; in overlap mode the oldest voices are cut when the voice limit is reached.
+export async function playBuffer(
+  soundId: string,
+  buffer: AudioBuffer,
+  { offset = 0, volume = 1, playbackRate = 1, direct = false }: VoiceOptions & { offset?: number; direct?: boolean } = {}
+): Promise<PlaybackVoice> {
+  await unlockAudio();
+  const ctx = getAudioContext();
+
+  if (mode === 'exclusive') {
+    [...voices].forEach(stopVoice);
+  } else {
+    while (voices.length >= Math.max(1, settings.voiceLimit)) {
+      stopVoice(voices[0]);
+    }
+  }
+
+  const gain = ctx.createGain();
+  gain.gain.value = volume;
+  // direct: around master volume and limiter, for hearing a clip exactly as it is saved
+  gain.connect(direct ? ctx.destination : masterGain!);
+
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.playbackRate.value = playbackRate;
+  source.connect(gain);
+
+  const start = Math.max(0, Math.min(offset, buffer.duration));
+  const voice: Voice = {
+    id: nextVoiceId++,
+    soundId,
+    startedAt: ctx.currentTime,
+    offset: start,
+    rate: playbackRate,
+    duration: buffer.duration,
+    source,
+    gain
+  };
+
+  source.onended = () => {
+    stopVoice(voice);
+    notify();
+  };
+
+  source.start(0, start);
+  voices.push(voice);
+  notify();
+
+  return toPublicVoice(voice);
+}
+
+// Load (cached) and play a sound from the board with its saved settings
+export async function playSound(sound: PlayableSound, offset = 0): Promise<PlaybackVoice> {
+  const buffer = await loadSound(sound);
+  return playBuffer(sound.id, buffer, { ...getVoiceOptions(sound), offset });
+}
+
+// Voices currently playing, optionally only those of one sound (oldest first)
+export function getVoices(soundId?: string): PlaybackVoice[] {
+  return voices.filter(voice => soundId === undefined || voice.soundId === soundId).map(toPublicVoice);
+}
+
+// Position of a voice inside its buffer, in seconds
+export function getVoicePosition(voice: PlaybackVoice): number {
+  return Math.min(voice.duration, voice.offset + (getCurrentTime() - voice.startedAt) * voice.rate);
+}
+
+// Change the volume of all voices of one sound
+export function setSoundVolume(soundId: string, volume: number) {
+  if (!context) return;
+  voices
+    .filter(voice => voice.soundId === soundId)
+    .forEach(voice => voice.gain.gain.setTargetAtTime(volume, context!.currentTime, 0.02));
+}
+
+// Change speed of all voices of one sound. Positions are re-based so
+// progress stays right after the change.
+export function setSoundRate(soundId: string, playbackRate: number) {
+  if (!context) return;
+  const now = context.currentTime;
+  const affected = voices.filter(voice => voice.soundId === soundId);
+  if (affected.length === 0) return;
+
+  affected.forEach(voice => {
+    voice.offset = getVoicePosition(voice);
+    voice.startedAt = now;
+    voice.rate = playbackRate;
+    voice.source.playbackRate.setValueAtTime(playbackRate, now);
+  });
+  notify();
+}
+
+// Stop every voice of one sound
+export function stopSound(soundId: string) {
+  voices.filter(voice => voice.soundId === soundId).forEach(stopVoice);
+  notify();
+}
+
+// Stop everything
+export function stopAll() {
+  [...voices].forEach(stopVoice);
+  notify();
+}
+
+// Seconds since the context started - voices' startedAt uses the same clock
+export function getCurrentTime(): number {
+  return context ? context.currentTime : 0;
+}
+
+export function getPlaybackSettings(): PlaybackSettings {
+  return settings;
+}
+
+// Change and persist playback settings
+export function updatePlaybackSettings(updates: Partial<PlaybackSettings>) {
+  settings = { ...settings, ...updates };
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+
+  if (masterGain && context) {
+    // Short ramp instead of a jump, so dragging the slider does not click
+    masterGain.gain.setTargetAtTime(settings.masterVolume, context.currentTime, 0.02);
+  }
+}
+
+// Exclusive or overlap, for the board on screen (saved in its layout, not here)
+export function setPlaybackMode(next: PlaybackMode) {
+  mode = next;
+
+  if (mode === 'exclusive' && voices.length > 1) {
+    voices.slice(0, -1).forEach(stopVoice);
+    notify();
+  }
+}
+
+// Listen for voices starting and stopping. Returns an unsubscribe function.
+export function subscribeToVoices(listener: Listener): () => void {
+  listeners.add(listener);
+  listener(publicVoices());
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,82 @@
+import { Sound, Facet } from '../types';
+
+// Search that ignores case and Polish diacritics, so "zarzygana" finds
+// "zarżygana" and "lodz" finds "Łódź".
+
+// Letters that do not decompose in NFD
+const EXTRA_LETTERS: Record<string, string> = { 'ł': 'l', 'Ł': 'l' };
+
+type SearchableSound = Pick<Sound, 'title' | 'tags' | 'category' | 'description'>;
+
+// Lowercase text without diacritics
+export function normalizeText(text: string): string {
+  return text
+    .replace(/[łŁ]/g, letter => EXTRA_LETTERS[letter])
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+// Letters of the query appear in order, with at most `maxGap` letters between
+// them - "zrzgn" matches "zarzygana", "ab" does not match "a long title b"
+function isSubsequence(query: string, text: string, maxGap = 2): boolean {
+  let from = text.indexOf(query[0]);
+
+  while (from !== -1) {
+    let position = from;
+    let matched = 1;
+    while (matched < query.length) {
+      const next = text.indexOf(query[matched], position + 1);
+      if (next === -1 || next - position - 1 > maxGap) break;
+      position = next;
+      matched++;
+    }
+    if (matched === query.length) return true;
+    from = text.indexOf(query[0], from + 1);
+  }
+
+  return false;
+}
+
+// Score how well a sound matches the query, 0 = no match. Every word of the query
+// has to match: title, tags and category by substring, description by whole word,
+// and the title also loosely (letters in order) for typos and skipped letters.
+export function scoreSound(sound: SearchableSound, query: string): number {
+  const words = normalizeText(query).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return 1;
+
+  const title = normalizeText(sound.title);
+  const labels = [...(sound.tags ?? []), sound.category ?? ''].map(normalizeText);
+  const description = normalizeText(sound.description ?? '').split(/\W+/);
+
+  let score = 0;
+  for (const word of words) {
+    if (title.startsWith(word)) score += 4;
+    else if (title.includes(word)) score += 3;
+    else if (labels.some(label => label.includes(word))) score += 2;
+    else if (description.includes(word)) score += 1;
+    else if (word.length >= 3 && isSubsequence(word, title)) score += 0.5;
+    else return 0;
+  }
+  return score;
+}
+
+// Count how many sounds carry each value, most used first
+function countFacets(values: string[][]): Facet[] {
+  const counts = new Map<string, number>();
+  values.forEach(list => {
+    new Set(list).forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  });
+  return Array.from(counts, ([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+// Tags used on the given sounds
+export function collectTags(sounds: Pick<Sound, 'tags'>[]): Facet[] {
+  return countFacets(sounds.map(sound => sound.tags ?? []));
+}
+
+// Categories used on the given sounds
+export function collectCategories(sounds: Pick<Sound, 'category'>[]): Facet[] {
+  return countFacets(sounds.map(sound => sound.category ? [sound.category] : []));
+}
@@ -0,0 +1,379 @@
+import { Sound, SoundRecord, Board, BoardRecord, ImportMode, ImportResult, TrimSettings, OutputSettings, AuthSession, AuthUser, DeleteResult, DeleteFailure, TrashedSound, TrashedSoundRecord, RestoreResult } from '../types';
+
+// Convert a server record (ISO date strings) to a Sound
+export function toSound(record: SoundRecord): Sound {
+  return {
+    ...record,
+    createdAt: new Date(record.createdAt),
+    updatedAt: new Date(record.updatedAt),
+    lastPlayedAt: record.lastPlayedAt ? new Date(record.lastPlayedAt) : null,
+  };
+}
+
+// Convert a server board record to a Board
+export function toBoard(record: BoardRecord): Board {
+  return {
+    ...record,
+    createdAt: new Date(record.createdAt),
+    updatedAt: new Date(record.updatedAt),
+  };
+}
+
+// Read the error message from a failed API response
+async function readError(response: Response): Promise<string> {
+  try {
+    const body = await response.json();
+    return body.error || `Server error: ${response.status}`;
+  } catch {
+    return `Server error: ${response.status}`;
+  }
+}
+
+// File extension the server expects for each clip type
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/wav': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'webm',
+};
+
+export interface UploadedAudio {
+  filename: string;
+  filePath: string;
+  size: number;
+}
+
+// POST multipart/form-data with upload progress (0-100) - fetch() has none, XHR does
+// Upload refused by the server (status = HTTP status) or lost on the way (status = 0)
+export class UploadError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+function postFormWithProgress<T>(url: string, formData: FormData, onProgress?: (percent: number) => void): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', url);
+    xhr.responseType = 'json';
+
+    xhr.upload.addEventListener('progress', (event) => {
+      if (event.lengthComputable && onProgress) {
+        onProgress(Math.round((event.loaded / event.total) * 100));
+      }
+    });
+
+    xhr.addEventListener('load', () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(xhr.response);
+      } else {
+        reject(new UploadError(xhr.response?.error || `Server error: ${xhr.status}`, xhr.status));
+      }
+    });
+
+    xhr.addEventListener('error', () => reject(new UploadError('Network error while uploading', 0)));
+    xhr.addEventListener('abort', () => reject(new Error('Upload aborted')));
+
+    xhr.send(formData);
+  });
+}
+
+// Upload a trimmed clip as multipart/form-data, reporting progress (0-100)
+export function uploadTrimmedAudio(
+  blob: Blob,
+  title: string,
+  onProgress?: (percent: number) => void
+): Promise<UploadedAudio> {
+  const formData = new FormData();
+  // Title must come before the file so the server can read it with the upload
+  formData.append('title', title);
+  formData.append('audio', blob, `clip.${AUDIO_EXTENSIONS[blob.type.split(';')[0]] || 'wav'}`);
+
+  return postFormWithProgress<UploadedAudio>('/api/sounds/save-trimmed', formData, onProgress);
+}
+
+// Send the original file to the server to be extracted, trimmed and encoded there.
+// Progress covers the upload only - the server answers once the clip is ready.
+export async function processOnServer(
+  file: File,
+  title: string,
+  trimSettings: TrimSettings,
+  output: OutputSettings,
+  onProgress?: (percent: number) => void
+): Promise<Sound> {
+  const formData = new FormData();
+  formData.append('title', title);
+  formData.append('startTime', trimSettings.startTime.toString());
+  formData.append('endTime', trimSettings.endTime.toString());
+  // Effects travel as plain fields, only the ones that are set
+  const effects: (keyof TrimSettings)[] = ['fadeIn', 'fadeOut', 'fadeCurve', 'normalize', 'normalizeTarget', 'trimSilence', 'silenceThreshold'];
+  effects.forEach(key => {
+    const value = trimSettings[key];
+    if (value !== undefined) {
+      formData.append(key, String(value));
+    }
+  });
+  formData.append('format', output.format);
+  formData.append('bitrate', output.bitrate.toString());
+  formData.append('file', file);
+
+  return toSound(await postFormWithProgress<SoundRecord>('/api/process', formData, onProgress));
+}
+
+// Delete a sound and its file - a sound the server does not know is already gone
+export async function deleteSoundRecord(id: string): Promise<void> {
+  const response = await fetch(`/api/sounds/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  if (!response.ok && response.status !== 404) {
+    throw new Error(await readError(response));
+  }
+}
+
+// Delete the given sounds, or every sound when no ids are passed
+export async function deleteSoundRecords(ids?: string[]): Promise<DeleteResult> {
+  const response = await fetch('/api/sounds', {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(ids ? { ids } : {}),
+  });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  return response.json();
+}
+
+// Deleted sounds on the server and how many days they are kept
+export async function fetchTrash(): Promise<{ retentionDays: number; sounds: TrashedSound[] }> {
+  const response = await fetch('/api/trash');
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  const { retentionDays, sounds }: { retentionDays: number; sounds: TrashedSoundRecord[] } = await response.json();
+  return {
+    retentionDays,
+    sounds: sounds.map(record => ({
+      ...toSound(record),
+      deletedAt: new Date(record.deletedAt),
+      expiresAt: new Date(record.expiresAt),
+    })),
+  };
+}
+
+// Move sounds back from the trash (onto the boards they were on)
+export async function restoreTrashedSounds(ids: string[]): Promise<RestoreResult> {
+  const response = await fetch('/api/trash/restore', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ids }),
+  });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  const { restored, failed }: { restored: SoundRecord[]; failed: DeleteFailure[] } = await response.json();
+  return { restored: restored.map(toSound), failed };
+}
+
+// Delete a trashed sound for good
+export async function purgeTrashedSound(id: string): Promise<void> {
+  const response = await fetch(`/api/trash/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+}
+
+// Delete everything in the trash for good
+export async function emptyTrash(): Promise<{ purged: number; failed: DeleteFailure[] }> {
+  const response = await fetch('/api/trash', { method: 'DELETE' });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  return response.json();
+}
+
+// Fetch all sound records from the server
+export async function fetchSounds(): Promise<Sound[]> {
+  const response = await fetch('/api/sounds');
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  const records: SoundRecord[] = await response.json();
+  return records.map(toSound);
+}
+
+// Create a sound record for a file that was already uploaded
+export async function createSoundRecord(
+  fields: Pick<Sound, 'filename' | 'title' | 'duration' | 'fileType'>
+): Promise<Sound> {
+  const response = await fetch('/api/sounds', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(fields),
+  });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  return toSound(await response.json());
+}
+
+// Someone else changed the fields being edited - `sound` is the server's current copy
+export class SoundConflictError extends Error {
+  constructor(message: string, public readonly sound: Sound, public readonly fields: string[]) {
+    super(message);
+    this.name = 'SoundConflictError';
+  }
+}
+
+// Persist changes to a sound record. With `expected` (the values the edit started from)
+// the server refuses to overwrite fields changed by someone else meanwhile.
+export async function patchSoundRecord(id: string, updates: Partial<Sound>, expected?: Partial<Sound>): Promise<Sound> {
+  const response = await fetch(`/api/sounds/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(expected ? { ...updates, expected } : updates),
+  });
+  if (response.status === 409) {
+    const body = await response.json().catch(() => ({}));
+    if (body.sound) {
+      throw new SoundConflictError(body.error, toSound(body.sound), body.fields ?? []);
+    }
+    throw new Error(body.error || 'Conflict');
+  }
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  return toSound(await response.json());
+}
+
+// Count one play of a sound
+export async function postSoundPlay(id: string): Promise<Sound> {
+  const response = await fetch(`/api/sounds/${encodeURIComponent(id)}/play`, { method: 'POST' });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  return toSound(await response.json());
+}
+
+// Save the manual layout of "All sounds" ({ soundId: slot })
+export async function saveSoundPositions(positions: Record<string, number>): Promise<Sound[]> {
+  const response = await fetch('/api/sounds/positions', {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ positions }),
+  });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  const records: SoundRecord[] = await response.json();
+  return records.map(toSound);
+}
+
+// Send validated export entries to the server and get back the full list
+export async function importSoundRecords(
+  entries: SoundRecord[],
+  mode: ImportMode
+): Promise<ImportResult & { sounds: Sound[] }> {
+  const response = await fetch('/api/sounds/import', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ sounds: entries, mode }),
+  });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  const result = await response.json();
+  return { ...result, sounds: result.sounds.map(toSound) };
+}
+
+// Upload a board archive (ZIP with manifest and audio files)
+export async function importSoundArchive(file: File): Promise<ImportResult & { sounds: Sound[] }> {
+  const formData = new FormData();
+  formData.append('archive', file);
+
+  const response = await fetch('/api/import', {
+    method: 'POST',
+    body: formData,
+  });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  const result = await response.json();
+  return { ...result, sounds: result.sounds.map(toSound) };
+}
+
+// Fetch all boards
+export async function fetchBoards(): Promise<Board[]> {
+  const response = await fetch('/api/boards');
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  const records: BoardRecord[] = await response.json();
+  return records.map(toBoard);
+}
+
+// Create an empty board
+export async function createBoardRecord(name: string): Promise<Board> {
+  const response = await fetch('/api/boards', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name }),
+  });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  return toBoard(await response.json());
+}
+
+// Persist changes to a board (name, sounds, layout)
+export async function patchBoardRecord(
+  id: string,
+  updates: Partial<Omit<Board, 'id' | 'createdAt' | 'updatedAt'>>
+): Promise<Board> {
+  const response = await fetch(`/api/boards/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(updates),
+  });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  return toBoard(await response.json());
+}
+
+// Delete a board (its sounds stay in the library)
+export async function deleteBoardRecord(id: string): Promise<void> {
+  const response = await fetch(`/api/boards/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+}
+
+// Who the server thinks we are (session cookie or anonymous access)
+export async function fetchSession(): Promise<AuthSession> {
+  const response = await fetch('/api/auth/session');
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  return response.json();
+}
+
+// Log in with an account or the shared token - the server sets the session cookie
+export async function postLogin(credentials: { username: string; password: string } | { token: string }): Promise<AuthUser> {
+  const response = await fetch('/api/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(credentials),
+  });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  const { user } = await response.json();
+  return user;
+}
+
+export async function postLogout(): Promise<void> {
+  const response = await fetch('/api/auth/logout', { method: 'POST' });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+}